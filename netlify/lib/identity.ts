@@ -0,0 +1,22 @@
+import { createClient } from "@supabase/supabase-js";
+
+// ---- Who is asking ----
+// The app sends the signed-in parent's Supabase access token (Authorization: Bearer ...);
+// the user id it verifies to is the household id (see src/auth.ts). Budgets and the usage
+// report hang off this, not off ids the browser makes up.
+export type HouseholdOf = (authorization: string | undefined) => Promise<string | null>;
+
+// Needs SUPABASE_URL plus SUPABASE_SERVICE_ROLE_KEY (or SUPABASE_ANON_KEY). Without them no
+// request is signed in, so every device counts as its own IP address.
+export function householdFromEnv(env: Record<string, string | undefined> = process.env): HouseholdOf {
+  const url = env.SUPABASE_URL;
+  const key = env.SUPABASE_SERVICE_ROLE_KEY || env.SUPABASE_ANON_KEY;
+  if (!url || !key) return async () => null;
+  const db = createClient(url, key, { auth: { persistSession: false } });
+  return async (authorization) => {
+    const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!token) return null;
+    const { data, error } = await db.auth.getUser(token);
+    return error ? null : data.user?.id ?? null;
+  };
+}
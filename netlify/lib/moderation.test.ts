@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { screen, screenFields } from "./moderation";
+
+describe("screen", () => {
+  it.each(["I'm Learning Fractions", "I am Reading Chapter Two", "The Assyrians built Nineveh", "In Hellenistic times"])(
+    "lets %s through",
+    (text) => {
+      expect(screen(text, "standard", "input")).toEqual({ ok: true, text, flags: [] });
+    },
+  );
+
+  it.each(["He'll be fine.", "she'll check the answer", "we'll try another one", "We’ll see"])("doesn't read %s as a swear", (text) => {
+    expect(screen(text, "standard", "output").ok).toBe(true);
+  });
+
+  it("blocks a full name after an explicit cue", () => {
+    const verdict = screen("my name is Emma Stone", "standard", "input");
+    expect(verdict.ok).toBe(false);
+    if (!verdict.ok) expect(verdict.flag.category).toBe("personal_info");
+  });
+
+  it("blocks words on the lists", () => {
+    expect(screen("what the hell", "standard", "output").ok).toBe(false);
+  });
+});
+
+describe("screenFields", () => {
+  it("redacts each string on its own and keeps the shape", () => {
+    const card = { definition: "A home, like where i live at 12 Oak Street", example: "My house is red.", n: 2 };
+    const verdict = screenFields(card, "standard", "output");
+    expect(verdict.ok).toBe(true);
+    if (!verdict.ok) return;
+    expect(verdict.value).toEqual({ definition: "A home, like where i live at [private]", example: "My house is red.", n: 2 });
+    expect(verdict.flags.map((f) => f.category)).toEqual(["personal_info"]);
+  });
+
+  it("blocks when any field is inappropriate", () => {
+    const verdict = screenFields({ questions: [{ prompt: "fine" }, { prompt: "shit" }] }, "relaxed", "output");
+    expect(verdict.ok).toBe(false);
+  });
+});
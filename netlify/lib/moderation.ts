@@ -0,0 +1,168 @@
+// ---- Content safety ----
+// Everything a student sends and everything the model writes back goes through screen().
+// Word lists are matched after undoing the usual disguises (leetspeak, spaced-out or dotted
+// letters, stretched vowels), and personal details a kid shouldn't share are caught by shape.
+// How strict to be is a per-profile setting chosen by the parent.
+
+export const STRICTNESS = ["relaxed", "standard", "strict"] as const;
+export type Strictness = (typeof STRICTNESS)[number];
+
+export type FlagCategory = "profanity" | "insult" | "self_harm" | "personal_info";
+export type Flag = {
+  where: "input" | "output";
+  category: FlagCategory;
+  action: "blocked" | "redacted";
+  excerpt: string; // what triggered it, personal details already removed (for the parent log)
+};
+export type Verdict =
+  | { ok: true; text: string; flags: Flag[] } // `text` may have personal details redacted
+  | { ok: false; flag: Flag; message: string }; // `message` is shown to the child instead
+
+// Kid-facing explanations, one per category
+const MESSAGES: Record<FlagCategory, string> = {
+  profanity: "Let’s keep our words kind and school-friendly. Can you ask that another way?",
+  insult: "Let’s use kind words, even when something is frustrating. Try asking again?",
+  self_harm:
+    "It sounds like something really hard might be going on. Please talk to a parent, teacher or another grown-up you trust right now. You don’t have to handle this alone.",
+  personal_info:
+    "That looks like private info (like a phone number, address, email or full name). Let’s keep that secret. Try asking without it!",
+};
+export const OUTPUT_MESSAGE = "Oops, my answer came out wrong. Let’s try that again with a different question!";
+const REDACTED = "[private]";
+
+// ---------- Word lists ----------
+// A trailing "*" also matches longer words starting with the stem ("shit*" -> "shitty").
+const STRONG = [
+  "fuck*", "fck*", "fuk*", "shit*", "sht", "bitch*", "btch", "cunt*", "asshole*", "ass", "arse", "arsehole*",
+  "bastard*", "dickhead*", "pussy", "whore*", "slut*", "piss*", "wanker*", "twat*",
+  "motherfuck*", "bullshit*", "jackass*", "dumbass*",
+];
+const MILD = ["damn*", "dammit", "hell", "crap*", "screw you", "wtf", "omfg"];
+const INSULTS = ["stupid", "idiot*", "dumb", "moron*", "loser*", "shut up", "hate you", "ugly", "fatso", "retard*"];
+const SELF_HARM = [
+  "kill myself", "killing myself", "want to die", "wanna die", "hurt myself", "hurting myself",
+  "suicide", "suicidal", "end my life", "cut myself", "cutting myself",
+];
+// Innocent words that start with a listed stem
+const ALLOWED = new Set(["shiitake", "shitake", "pissarro", "crappie"]);
+
+type Matcher = (normalized: string) => string | null;
+
+// Single words are compared per token (also with doubled letters squeezed: "fuuck" -> "fuck");
+// phrases are searched in the normalized text
+function matcher(list: string[]): Matcher {
+  const exact = new Set(list.filter((w) => !w.includes(" ") && !w.endsWith("*")));
+  const stems = list.filter((w) => w.endsWith("*")).map((w) => w.slice(0, -1));
+  const phrases = list.filter((w) => w.includes(" "));
+  const hit = (t: string) => !ALLOWED.has(t) && (exact.has(t) || stems.some((s) => t.startsWith(s)));
+  return (normalized) => {
+    for (const token of normalized.split(" ")) {
+      if (token && (hit(token) || hit(token.replace(/(.)\1+/g, "$1")))) return token;
+    }
+    return phrases.find((p) => ` ${normalized} `.includes(` ${p} `)) ?? null;
+  };
+}
+const strong = matcher(STRONG);
+const mild = matcher(MILD);
+const insults = matcher(INSULTS);
+const selfHarm = matcher(SELF_HARM);
+
+const LEET: Record<string, string> = { "0": "o", "1": "i", "!": "i", "3": "e", "4": "a", "@": "a", "5": "s", "$": "s", "7": "t", "+": "t" };
+
+// Lowercase letters separated by single spaces, with the common disguises undone
+export function normalize(text: string): string {
+  let s = text.normalize("NFKD").replace(/\p{M}+/gu, "").toLowerCase();
+  // Leetspeak only inside words, so "3 + 4" stays arithmetic
+  s = s.replace(/(?<=[a-z])[013457!@$+]+|[013457!@$+]+(?=[a-z])/g, (m) => [...m].map((c) => LEET[c] ?? c).join(""));
+  // f*ck, s.h.i.t, b-i-t-c-h; not apostrophes, or "he'll" would read as "hell"
+  s = s.replace(/(?<=[a-z])[*.\-_]+(?=[a-z])/g, "");
+  s = s.replace(/(.)\1{2,}/g, "$1$1"); // shiiiit -> shiit
+  s = s.replace(/[^a-z]+/g, " ").trim();
+  // f u c k: runs of three or more single letters are one word
+  return s.replace(/\b[a-z](?: [a-z]\b){2,}/g, (m) => m.replace(/ /g, ""));
+}
+
+// ---------- Personal information ----------
+const NOT_A_SURNAME = new Set(["and", "but", "i", "im", "so", "the", "what", "how", "can", "is", "my", "in", "from", "at", "to"]);
+const PERSONAL: RegExp[] = [
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, // email
+  /(?:\+?1[\s.-]?)?\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g, // 555-123-4567, (555) 123 4567
+  /\b(?:phone|cell|mobile|call me|text me|whatsapp)\b\D{0,20}\d{7,}/gi, // "call me at 5551234567"
+  /\b\d{1,5}\s+[a-z]+(?:\s+[a-z]+)?\s+(?:street|st|avenue|ave|road|rd|lane|ln|drive|dr|boulevard|blvd|terrace)\b\.?/gi, // 12 Oak Street
+  /\bi live at\s+\d[^.,!?\n]*/gi,
+  /\bmy (?:last|family|sur) ?name is\s+[a-z'-]+/gi,
+  /\b(?:i go to|my school is|i attend)\s+(?:[\w'.-]+\s+){0,3}(?:elementary|middle|high|primary|academy|school)\b(?:\s+school)?/gi,
+];
+// "my name is Emma Stone" -> full name; "my name is Emma and ..." -> first name only, fine.
+// Only after an explicit cue: "I'm Learning Fractions" is capitalized like a name but isn't one.
+const FULL_NAME = /\b(?:my (?:full |real )?name is|my name['’]s)\s+([a-z'-]+)\s+([a-z'-]+)/gi;
+
+function findPersonal(text: string): string[] {
+  const found = PERSONAL.flatMap((re) => text.match(re) ?? []);
+  for (const m of text.matchAll(FULL_NAME)) {
+    const [, first, last] = m;
+    // Names are written capitalized; "I am really tired" is not a name
+    if (/^[A-Z]/.test(first) && /^[A-Z]/.test(last) && !NOT_A_SURNAME.has(last.toLowerCase())) found.push(m[0]);
+  }
+  return found;
+}
+function redact(text: string, found: string[]) {
+  return found.reduce((s, hit) => s.split(hit).join(REDACTED), text);
+}
+
+// ---------- Screening ----------
+const excerptOf = (text: string) => (text.length > 200 ? `${text.slice(0, 200)}…` : text);
+
+// Which word lists apply at each level (self-harm is always flagged, on input only)
+function wordCategory(normalized: string, strictness: Strictness, where: Flag["where"]): FlagCategory | null {
+  if (where === "input" && selfHarm(normalized)) return "self_harm";
+  if (strong(normalized)) return "profanity";
+  if (strictness !== "relaxed" && mild(normalized)) return "profanity";
+  if (strictness === "strict" && insults(normalized)) return "insult";
+  return null;
+}
+
+// Student text: personal details are redacted at "relaxed" and blocked otherwise.
+// Tutor text: anything inappropriate replaces the whole answer; stray personal details
+// (e.g. echoed back from the conversation) are redacted.
+export function screen(text: string, strictness: Strictness, where: Flag["where"]): Verdict {
+  const personal = findPersonal(text);
+  const safeText = redact(text, personal);
+  const excerpt = excerptOf(safeText);
+
+  const category = wordCategory(normalize(text), strictness, where);
+  if (category) {
+    const flag: Flag = { where, category, action: "blocked", excerpt };
+    return { ok: false, flag, message: where === "input" ? MESSAGES[category] : OUTPUT_MESSAGE };
+  }
+  if (!personal.length) return { ok: true, text, flags: [] };
+  if (where === "input" && strictness !== "relaxed") {
+    const flag: Flag = { where, category: "personal_info", action: "blocked", excerpt };
+    return { ok: false, flag, message: MESSAGES.personal_info };
+  }
+  return { ok: true, text: safeText, flags: [{ where, category: "personal_info", action: "redacted", excerpt }] };
+}
+
+// Structured replies (tests, feedback, definition cards) are screened one string at a time, so
+// a redaction can't run across the JSON around it. Callers validate the result again.
+export type FieldsVerdict<T> = { ok: true; value: T; flags: Flag[] } | Extract<Verdict, { ok: false }>;
+export function screenFields<T>(value: T, strictness: Strictness, where: Flag["where"]): FieldsVerdict<T> {
+  const verdicts: Verdict[] = [];
+  const walk = (v: unknown): unknown => {
+    if (typeof v === "string") {
+      const verdict = screen(v, strictness, where);
+      verdicts.push(verdict);
+      return verdict.ok ? verdict.text : v;
+    }
+    if (Array.isArray(v)) return v.map(walk);
+    if (v && typeof v === "object") return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, walk(x)]));
+    return v;
+  };
+  const screened = walk(value) as T;
+  const flags: Flag[] = [];
+  for (const verdict of verdicts) {
+    if (!verdict.ok) return verdict;
+    flags.push(...verdict.flags);
+  }
+  return { ok: true, value: screened, flags };
+}
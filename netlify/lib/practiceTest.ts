@@ -0,0 +1,111 @@
+import { z } from "zod";
+
+// ---- Practice tests ----
+// The model is asked for JSON and the reply is validated here, so the client
+// gets a quiz it can render and grade instead of free text with an "Answer Key".
+
+const Question = z
+  .object({
+    type: z.enum(["multiple_choice", "short_answer", "numeric"]),
+    prompt: z.string().min(1).max(500),
+    choices: z.array(z.string().min(1).max(200)).min(2).max(6).optional(),
+    answer: z.coerce.string().min(1).max(200),
+    // Other wordings that should also count as correct (short answers)
+    accept: z.array(z.coerce.string().max(200)).max(5).optional(),
+    explanation: z.string().max(500).optional(),
+  })
+  .refine((q) => q.type !== "multiple_choice" || (q.choices ?? []).includes(q.answer), {
+    message: "multiple_choice answer must be one of the choices",
+  });
+
+const ModelTest = z.object({
+  title: z.string().min(1).max(120),
+  questions: z.array(Question).min(1).max(12),
+});
+
+export type PracticeTest = {
+  title: string;
+  questions: (z.infer<typeof Question> & { id: string })[];
+};
+
+export function questionCount(grade: string) {
+  return grade === "K" || grade === "1" || grade === "2" ? 4 :
+    grade === "3" || grade === "4" ? 5 :
+    grade === "5" ? 6 : 8;
+}
+
+export function buildTestPrompt(topic: string, grade: string, subject: string, dyslexia: boolean) {
+  const style = dyslexia
+    ? "Use short sentences, plain words, and simple layout."
+    : "Keep it concise and clear.";
+  return `Create a short ${subject} practice test with ${questionCount(grade)} questions about: ${topic}
+
+Reply with ONLY a JSON object shaped like this:
+{"title": string, "questions": [{"type": "multiple_choice" | "short_answer" | "numeric", "prompt": string, "choices": string[], "answer": string, "accept": string[], "explanation": string}]}
+- "choices" only for multiple_choice, and "answer" must be exactly one of them.
+- numeric answers are a single number, decimal or fraction (like 6/5).
+- short_answer answers are one to three words; put other correct wordings in "accept".
+- "explanation" is one short sentence shown after grading.
+- Use simple LaTeX ($...$) for math in prompts.
+${style}`;
+}
+
+// Models sometimes wrap JSON in ``` fences or add a sentence around it
+function extractJson(text: string): unknown {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end <= start) return null;
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+export function parsePracticeTest(text: string): PracticeTest | null {
+  const parsed = ModelTest.safeParse(extractJson(text));
+  if (!parsed.success) return null;
+  return {
+    title: parsed.data.title,
+    questions: parsed.data.questions.map((q, i) => ({ ...q, id: `q${i + 1}` })),
+  };
+}
+
+// Deterministic test for mock mode
+export const MOCK_TEST = {
+  title: "Dividing Fractions Practice",
+  questions: [
+    {
+      type: "multiple_choice",
+      prompt: "What is the **reciprocal** of $\\frac{2}{3}$?",
+      choices: ["2/3", "3/2", "1/3", "6"],
+      answer: "3/2",
+      explanation: "Flip the top and bottom numbers.",
+    },
+    {
+      type: "numeric",
+      prompt: "$\\frac{1}{2} \\div \\frac{1}{4} = ?$",
+      answer: "2",
+      explanation: "1/2 × 4/1 = 4/2 = 2.",
+    },
+    {
+      type: "numeric",
+      prompt: "$\\frac{3}{5} \\div \\frac{1}{2} = ?$",
+      answer: "6/5",
+      explanation: "3/5 × 2/1 = 6/5, which is also 1 1/5.",
+    },
+    {
+      type: "short_answer",
+      prompt: "What do we call a fraction flipped upside down?",
+      answer: "reciprocal",
+      accept: ["the reciprocal", "multiplicative inverse"],
+      explanation: "Dividing by a fraction = multiplying by its reciprocal.",
+    },
+    {
+      type: "numeric",
+      prompt: "$\\frac{2}{3} \\div \\frac{1}{3} = ?$",
+      answer: "2",
+      explanation: "2/3 × 3/1 = 6/3 = 2.",
+    },
+  ],
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { continueChat, type ChatMessage, type ChatResult, type Provider } from "./providers";
+
+// Answers with the given results in order, and remembers what it was asked
+function scripted(results: ChatResult[]) {
+  const calls: ChatMessage[][] = [];
+  const provider: Provider = {
+    id: "mock", model: "test", price: { input: 0, output: 0 }, vision: false,
+    async chat(messages) {
+      calls.push(messages);
+      return results[calls.length - 1] ?? { ok: false, error: "no more" };
+    },
+  };
+  return { provider, calls };
+}
+const part = (text: string, finish: "stop" | "length"): ChatResult =>
+  ({ ok: true, text, finish, usage: { promptTokens: 10, completionTokens: 5 } });
+const question: ChatMessage[] = [{ role: "user", content: "Explain fractions" }];
+
+describe("continueChat", () => {
+  it("returns a finished answer as it is", async () => {
+    const { provider, calls } = scripted([part("All done.", "stop")]);
+    expect(await continueChat(provider, question)).toEqual(part("All done.", "stop"));
+    expect(calls).toHaveLength(1);
+  });
+
+  it("asks for the rest of a cut-off answer and joins the parts", async () => {
+    const { provider, calls } = scripted([part("First half", "length"), part("second half.", "stop")]);
+    const deltas: string[] = [];
+    const result = await continueChat(provider, question, { onDelta: (d) => deltas.push(d) });
+    expect(result).toEqual({ ok: true, text: "First half\nsecond half.", finish: "stop", usage: { promptTokens: 20, completionTokens: 10 } });
+    expect(calls[1].slice(-2)).toEqual([
+      { role: "assistant", content: "First half" },
+      { role: "user", content: "Please continue from where you left off." },
+    ]);
+    expect(deltas).toEqual(["\n"]);
+  });
+
+  it("stops after the allowed number of continuations", async () => {
+    const { provider, calls } = scripted([part("a", "length"), part("b", "length"), part("c", "stop")]);
+    const result = await continueChat(provider, question, {}, 1);
+    expect(result.ok && result.finish).toBe("length");
+    expect(calls).toHaveLength(2);
+  });
+
+  it("keeps what it has when a continuation fails, and passes on a failed first call", async () => {
+    const kept = await continueChat(scripted([part("Partial", "length")]).provider, question);
+    expect(kept).toMatchObject({ ok: true, text: "Partial", finish: "length" });
+    expect(await continueChat(scripted([]).provider, question)).toEqual({ ok: false, error: "no more" });
+  });
+
+  it("doesn't continue once the request is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { provider, calls } = scripted([part("a", "length"), part("b", "stop")]);
+    await continueChat(provider, question, { signal: controller.signal });
+    expect(calls).toHaveLength(1);
+  });
+});
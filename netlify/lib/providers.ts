@@ -0,0 +1,357 @@
+import { MOCK_TEST } from "./practiceTest";
+import { mockDefinition } from "./vocab";
+import { mockWritingFeedback } from "./writing";
+
+// ---- LLM providers ----
+// Every backend the tutor can talk to implements the same small interface:
+// one chat call (optionally streamed) that reports why the model stopped.
+// continueChat() builds the "keep going" behaviour on top of that.
+
+// `images` are data: URLs sent along with a student turn (photos of a worksheet); only
+// providers with `vision` get them
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string; images?: string[] };
+
+// "length" = the model ran out of tokens mid-answer and can be asked to continue
+export type FinishReason = "stop" | "length" | "other";
+
+// Tokens one call was billed for (estimated from the text when the server doesn't say)
+export type Usage = { promptTokens: number; completionTokens: number };
+
+export type ChatResult =
+  | { ok: true; text: string; finish: FinishReason; usage: Usage }
+  | { ok: false; error: string; detail?: string };
+
+export type ChatOptions = {
+  signal?: AbortSignal;
+  // When given, text is handed over piece by piece as it is generated
+  onDelta?: (delta: string) => void;
+  // Ask for a JSON object reply (structured output such as practice tests)
+  json?: boolean;
+};
+
+// USD per million tokens, for cost tracking
+export type Price = { input: number; output: number };
+
+export interface Provider {
+  id: "mock" | "openai" | "local";
+  model: string;
+  price: Price;
+  vision: boolean; // accepts image input
+  chat(messages: ChatMessage[], opts?: ChatOptions): Promise<ChatResult>;
+}
+
+// Ask for the rest of a cut-off answer, up to `maxContinuations` times
+export async function continueChat(
+  provider: Provider,
+  messages: ChatMessage[],
+  opts: ChatOptions = {},
+  maxContinuations = 1
+): Promise<ChatResult> {
+  const first = await provider.chat(messages, opts);
+  if (!first.ok) return first;
+
+  let text = first.text;
+  let finish = first.finish;
+  const usage = { ...first.usage };
+  for (let i = 0; i < maxContinuations && finish === "length" && !opts.signal?.aborted; i++) {
+    const sep = text ? "\n" : "";
+    opts.onDelta?.(sep);
+    const next = await provider.chat(
+      [
+        ...messages,
+        { role: "assistant", content: text },
+        { role: "user", content: "Please continue from where you left off." },
+      ],
+      opts
+    );
+    if (!next.ok) break;
+    text += (next.text ? sep : "") + next.text;
+    finish = next.finish;
+    usage.promptTokens += next.usage.promptTokens;
+    usage.completionTokens += next.usage.completionTokens;
+  }
+  return { ok: true, text, finish, usage };
+}
+
+function toFinish(reason: string | null | undefined): FinishReason {
+  if (!reason || reason === "stop") return "stop";
+  return reason === "length" ? "length" : "other";
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Roughly four characters per token for English text; a resized photo is billed about the
+// same as a few paragraphs
+const tokensIn = (text: string) => Math.ceil(text.length / 4);
+const IMAGE_TOKENS = 800;
+export function estimateUsage(messages: ChatMessage[], reply: string): Usage {
+  const images = messages.reduce((n, m) => n + (m.images?.length ?? 0), 0);
+  return { promptTokens: tokensIn(messages.map((m) => m.content).join("\n")) + images * IMAGE_TOKENS, completionTokens: tokensIn(reply) };
+}
+
+// ---- mock ----
+// Canned replies (no API key needed). Streams word by word so the UI can be tried offline.
+function mockReply(messages: ChatMessage[]) {
+  const system = messages.find((m) => m.role === "system")?.content ?? "";
+  const last = messages[messages.length - 1]?.content ?? "";
+  const m = last.toLowerCase();
+  const followUp = messages.filter((msg) => msg.role === "assistant").length > 0;
+  const outro = system.includes("Want me to read this out loud?") ? "Want me to read this out loud?" : "";
+  const photos = messages[messages.length - 1]?.images?.length ?? 0;
+
+  // The mock can't read the photo, so every image gets the same worksheet problem
+  if (photos) {
+    return `I can see your worksheet (${photos === 1 ? "1 photo" : `${photos} photos`}). Let's do **problem 1** together: 3/5 ÷ 1/2.
+• Flip the second fraction (**reciprocal**): 1/2 becomes 2/1.
+• Multiply: 3/5 × 2/1 = 6/5.
+• 6/5 is the same as 1 1/5.
+**Check:** What is 2/3 ÷ 1/3?
+${outro}`;
+  }
+
+  if (m.includes("please simplify the explanation even more")) {
+    return `• **Reciprocal** = flip the second fraction.
+• Multiply top numbers.
+• Multiply bottom numbers.
+• **Reduce** if you can.
+**Example:** 1/2 ÷ 1/4 → 1/2 × 4/1 = 4/2 = 2.
+**Check:** 3/5 ÷ 1/2 = ?
+${outro}`;
+  }
+
+  if (m.includes("show numbered steps with one action per line")) {
+    return `1) Write the **reciprocal** of the second fraction.
+2) Multiply numerators.
+3) Multiply denominators.
+4) **Simplify** the result.
+Example: 1/2 ÷ 1/4 = 1/2 × 4/1 = 4/2 = 2.
+Check: What is 3/5 ÷ 1/2?
+${outro}`;
+  }
+
+  if (m.includes("give me one helpful hint")) {
+    return `**Hint:** Turn division into multiplication by the **reciprocal** of the second fraction, then multiply across.
+Your turn: 3/5 ÷ 1/2 = ?
+${outro}`;
+  }
+
+  // Follow-up in an existing thread: acknowledge the earlier explanation
+  const lead = followUp ? "Building on what we just did:\n" : "";
+  return `${lead}• Flip the second fraction (**reciprocal**).
+• Multiply the numerators.
+• Multiply the denominators.
+• Simplify if possible.
+**Example:** 1/2 ÷ 1/4 = 1/2 × 4/1 = 4/2 = 2.
+**Check:** What is 3/5 ÷ 1/2?
+${outro}`;
+}
+
+// Structured replies: pick the canned object that matches the request
+function mockJson(messages: ChatMessage[]) {
+  const last = messages[messages.length - 1]?.content ?? "";
+  const define = last.match(/^Define the word "(.+?)"/);
+  if (define) return JSON.stringify(mockDefinition(define[1]));
+  const draft = last.match(/^Give writing feedback[^\n]*\n<<<\n([\s\S]*?)\n>>>/);
+  if (draft) return JSON.stringify(mockWritingFeedback(draft[1]));
+  return JSON.stringify(MOCK_TEST);
+}
+
+export function mockProvider(): Provider {
+  return {
+    id: "mock",
+    model: "canned",
+    price: { input: 0, output: 0 },
+    vision: true,
+    async chat(messages, opts = {}) {
+      const text = opts.json ? mockJson(messages) : mockReply(messages);
+      if (opts.onDelta) {
+        for (const piece of text.match(/\S+\s*|\s+/g) ?? []) {
+          if (opts.signal?.aborted) break;
+          opts.onDelta(piece);
+          await sleep(40);
+        }
+      }
+      return { ok: true, text, finish: "stop", usage: estimateUsage(messages, text) };
+    },
+  };
+}
+
+// ---- OpenAI-compatible (OpenAI itself, llama.cpp server, Ollama, LM Studio, ...) ----
+export type OpenAICompatibleConfig = {
+  id: "openai" | "local";
+  baseUrl: string; // up to and including /v1
+  apiKey?: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  price: Price;
+  vision: boolean;
+};
+
+// What we read from /chat/completions (plain and streamed)
+type OpenAIChoice = {
+  message?: { content?: string };
+  delta?: { content?: string };
+  finish_reason?: string | null;
+};
+type OpenAIUsage = { prompt_tokens?: number; completion_tokens?: number };
+type OpenAIResponse = { choices?: OpenAIChoice[]; usage?: OpenAIUsage | null };
+
+// Student turns with photos become text + image_url parts
+function toWire(m: ChatMessage) {
+  if (!m.images?.length) return { role: m.role, content: m.content };
+  return {
+    role: m.role,
+    content: [{ type: "text", text: m.content }, ...m.images.map((url) => ({ type: "image_url", image_url: { url } }))],
+  };
+}
+
+function toUsage(reported: OpenAIUsage | null | undefined, messages: ChatMessage[], text: string): Usage {
+  if (reported?.prompt_tokens === undefined) return estimateUsage(messages, text);
+  return { promptTokens: reported.prompt_tokens, completionTokens: reported.completion_tokens ?? 0 };
+}
+
+export function openAICompatibleProvider(cfg: OpenAICompatibleConfig): Provider {
+  const url = `${cfg.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const badResponse = `${cfg.id}_bad_response`;
+
+  return {
+    id: cfg.id,
+    model: cfg.model,
+    price: cfg.price,
+    vision: cfg.vision,
+    async chat(messages, opts = {}) {
+      const streamed = Boolean(opts.onDelta);
+      let r: Response;
+      try {
+        r = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(cfg.apiKey ? { Authorization: `Bearer ${cfg.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: cfg.model,
+            messages: messages.map(toWire),
+            max_tokens: cfg.maxTokens,
+            temperature: cfg.temperature,
+            stream: streamed,
+            // OpenAI only reports usage on streams when asked; other servers may reject the option
+            ...(streamed && cfg.id === "openai" ? { stream_options: { include_usage: true } } : {}),
+            ...(opts.json ? { response_format: { type: "json_object" } } : {}),
+          }),
+          signal: opts.signal,
+        });
+      } catch (e) {
+        return { ok: false, error: `${cfg.id}_unreachable`, detail: String(e) };
+      }
+      if (!r.ok) {
+        const detail = await r.text().catch(() => "");
+        return { ok: false, error: badResponse, detail };
+      }
+
+      if (!streamed || !r.body) {
+        let data: OpenAIResponse;
+        try {
+          data = (await r.json()) as OpenAIResponse;
+        } catch (e) {
+          return { ok: false, error: badResponse, detail: String(e) };
+        }
+        const choice = data.choices?.[0];
+        const text = choice?.message?.content ?? "";
+        return { ok: true, text, finish: toFinish(choice?.finish_reason), usage: toUsage(data.usage, messages, text) };
+      }
+
+      // Streamed: `data: {...}` lines, terminated by `data: [DONE]`
+      const reader = r.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffered = "";
+      let text = "";
+      let finish: FinishReason = "stop";
+      let reported: OpenAIUsage | null | undefined;
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffered += value;
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+        for (const line of lines) {
+          const payload = line.startsWith("data:") ? line.slice(5).trim() : "";
+          if (!payload || payload === "[DONE]") continue;
+          let chunk: OpenAIResponse;
+          try {
+            chunk = JSON.parse(payload) as OpenAIResponse;
+          } catch {
+            continue; // a keep-alive or garbled line; the next one carries on
+          }
+          reported = chunk.usage ?? reported; // the last chunk, when requested
+          const choice = chunk.choices?.[0];
+          const delta = choice?.delta?.content ?? "";
+          if (delta) {
+            text += delta;
+            opts.onDelta?.(delta);
+          }
+          if (choice?.finish_reason) finish = toFinish(choice.finish_reason);
+        }
+      }
+      return { ok: true, text, finish, usage: toUsage(reported, messages, text) };
+    },
+  };
+}
+
+// ---- selection from environment ----
+// LLM_MODE picks the provider; each has its own model / temperature / token cap.
+//   openai: OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_MODEL, OPENAI_TEMPERATURE, OPENAI_MAX_TOKENS,
+//           OPENAI_PRICE_INPUT, OPENAI_PRICE_OUTPUT (USD per million tokens), OPENAI_VISION (default on)
+//   local:  LOCAL_LLM_BASE_URL, LOCAL_LLM_API_KEY, LOCAL_LLM_MODEL, LOCAL_LLM_TEMPERATURE, LOCAL_LLM_MAX_TOKENS,
+//           LOCAL_LLM_VISION (default off: set it for a multimodal model such as llava)
+const MAX_TOKENS_CAP = 4000; // safety cap
+
+function num(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(n) ? n : fallback;
+}
+function flag(value: string | undefined, fallback: boolean) {
+  if (value === undefined || value === "") return fallback;
+  return !["0", "false", "off", "no"].includes(value.toLowerCase());
+}
+
+export function providerFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Provider | { error: string } {
+  const mode = (env.LLM_MODE ?? "mock").toLowerCase();
+
+  if (mode === "mock") return mockProvider();
+
+  if (mode === "openai") {
+    if (!env.OPENAI_API_KEY) return { error: "missing_openai_key" };
+    return openAICompatibleProvider({
+      id: "openai",
+      baseUrl: env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+      apiKey: env.OPENAI_API_KEY,
+      model: env.OPENAI_MODEL || "gpt-4o-mini",
+      temperature: num(env.OPENAI_TEMPERATURE, 0.2),
+      maxTokens: Math.min(num(env.OPENAI_MAX_TOKENS, 1500), MAX_TOKENS_CAP),
+      // Defaults are gpt-4o-mini list prices
+      price: { input: num(env.OPENAI_PRICE_INPUT, 0.15), output: num(env.OPENAI_PRICE_OUTPUT, 0.6) },
+      vision: flag(env.OPENAI_VISION, true),
+    });
+  }
+
+  // Any OpenAI-compatible server on the home network, e.g.
+  //   Ollama:    http://localhost:11434/v1
+  //   llama.cpp: http://localhost:8080/v1
+  if (mode === "local") {
+    return openAICompatibleProvider({
+      id: "local",
+      baseUrl: env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+      apiKey: env.LOCAL_LLM_API_KEY,
+      model: env.LOCAL_LLM_MODEL || "llama3.1",
+      temperature: num(env.LOCAL_LLM_TEMPERATURE, 0.2),
+      maxTokens: Math.min(num(env.LOCAL_LLM_MAX_TOKENS, 1500), MAX_TOKENS_CAP),
+      price: { input: 0, output: 0 },
+      vision: flag(env.LOCAL_LLM_VISION, false),
+    });
+  }
+
+  return { error: "llm_not_configured" };
+}
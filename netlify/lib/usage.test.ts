@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { checkLimits, limitsFromEnv, memoryStore, usageReport, type UsageEntry } from "./usage";
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+const MINUTE = 60_000;
+const limits = { perMinute: 3, dailyTokens: 1000, monthlyTokens: 5000 };
+
+const entry = (fields: Partial<UsageEntry>): UsageEntry => ({
+  account: "household:h1", profileId: "h1/p1", at: NOW, kind: "chat", model: "m",
+  promptTokens: 10, completionTokens: 10, costUsd: 0.001, ...fields,
+});
+async function storeWith(entries: Partial<UsageEntry>[]) {
+  const store = memoryStore();
+  for (const e of entries) await store.record(entry(e));
+  return store;
+}
+
+describe("checkLimits", () => {
+  it("lets a quiet account through", async () => {
+    const store = await storeWith([{ at: NOW - 5 * MINUTE }]);
+    expect(await checkLimits(store, "household:h1", limits, NOW)).toEqual({ ok: true });
+  });
+
+  it("limits requests per minute and says when to retry", async () => {
+    const store = await storeWith([{ at: NOW - 50_000 }, { at: NOW - 20_000 }, { at: NOW - 10_000 }]);
+    expect(await checkLimits(store, "household:h1", limits, NOW)).toEqual({ ok: false, error: "rate_limited", retryAfter: 10 });
+    expect(await checkLimits(store, "household:h2", limits, NOW)).toEqual({ ok: true });
+  });
+
+  it("stops at the daily budget until the next UTC day", async () => {
+    const store = await storeWith([{ at: NOW - 60 * MINUTE, promptTokens: 600, completionTokens: 400 }]);
+    expect(await checkLimits(store, "household:h1", limits, NOW)).toEqual({ ok: false, error: "daily_budget", retryAfter: 12 * 3600 });
+  });
+
+  it("counts the whole month, but not last month", async () => {
+    const store = await storeWith([
+      { at: Date.UTC(2026, 9, 2), promptTokens: 5000 },
+      { at: Date.UTC(2026, 8, 30), promptTokens: 50_000 },
+    ]);
+    const check = await checkLimits(store, "household:h1", limits, NOW);
+    expect(check.ok || check.error).toBe("monthly_budget");
+    expect(await checkLimits(store, "household:h1", { ...limits, monthlyTokens: 0 }, NOW)).toEqual({ ok: true });
+  });
+});
+
+describe("usageReport", () => {
+  it("totals today and the month for a child or the account", async () => {
+    const store = await storeWith([
+      { at: NOW - MINUTE },
+      { at: Date.UTC(2026, 9, 1), profileId: "h1/p2", costUsd: 0.002 },
+    ]);
+    expect(await usageReport(store, { profileId: "h1/p1" }, NOW)).toEqual({
+      today: { requests: 1, tokens: 20, costUsd: 0.001 },
+      month: { requests: 1, tokens: 20, costUsd: 0.001 },
+    });
+    const all = await usageReport(store, { account: "household:h1" }, NOW);
+    expect(all.today.requests).toBe(1);
+    expect(all.month).toMatchObject({ requests: 2, tokens: 40 });
+  });
+});
+
+describe("limitsFromEnv", () => {
+  it("reads numbers and falls back on anything else", () => {
+    expect(limitsFromEnv({ TUTOR_RATE_PER_MINUTE: "0", TUTOR_DAILY_TOKENS: "abc", TUTOR_MONTHLY_TOKENS: "-5" })).toEqual({
+      perMinute: 0, dailyTokens: 60_000, monthlyTokens: 1_000_000,
+    });
+  });
+});
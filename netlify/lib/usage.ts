@@ -0,0 +1,194 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { createClient } from "@supabase/supabase-js";
+import type { Price, Usage } from "./providers";
+
+// ---- Usage, budgets and rate limits ----
+// Every model call is recorded (tokens and estimated cost) against the account that pays for it
+// and the child who asked. Before a new request the account's recent history decides whether it
+// may go ahead: a per-minute request limit, plus daily and monthly token budgets (UTC days/months).
+// An account is a verified household (see identity.ts), or the client's IP address when no
+// parent is signed in, so a made-up profile id doesn't get a fresh budget. Devices that aren't
+// signed in share their network's budget.
+// A request that starts under budget is allowed to finish, so a budget can be overshot by one reply.
+// Checking and recording aren't one step either: requests sent at the same moment can all pass
+// the per-minute check before any of them is recorded. The limits are approximate on purpose;
+// they stop runaway use, they don't count every request exactly.
+
+export type UsageKind = "chat" | "test" | "define" | "writing";
+export type UsageEntry = {
+  account: string; // "household:<id>" or "ip:<address>"
+  profileId: string; // "<household id>/<profile id>" (just the account when not signed in)
+  at: number; // ms
+  kind: UsageKind;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+};
+export type UsageTotals = { requests: number; tokens: number; costUsd: number };
+
+export type Limits = {
+  perMinute: number; // requests; 0 = no limit (same for the budgets)
+  dailyTokens: number;
+  monthlyTokens: number;
+};
+export type LimitCheck =
+  | { ok: true }
+  | { ok: false; error: "rate_limited" | "daily_budget" | "monthly_budget"; retryAfter: number }; // seconds
+
+// Storage is pluggable: in-memory or a local file for development, Supabase in production
+export interface UsageStore {
+  id: "memory" | "file" | "supabase";
+  record(entry: UsageEntry): Promise<void>;
+  since(key: UsageKey, from: number): Promise<UsageEntry[]>; // entries with at >= from
+}
+export type UsageKey = { account: string } | { profileId: string };
+const matches = (e: UsageEntry, key: UsageKey) => ("account" in key ? e.account === key.account : e.profileId === key.profileId);
+
+function num(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+// TUTOR_RATE_PER_MINUTE, TUTOR_DAILY_TOKENS, TUTOR_MONTHLY_TOKENS
+export function limitsFromEnv(env: Record<string, string | undefined> = process.env): Limits {
+  return {
+    perMinute: num(env.TUTOR_RATE_PER_MINUTE, 8),
+    dailyTokens: num(env.TUTOR_DAILY_TOKENS, 60_000),
+    monthlyTokens: num(env.TUTOR_MONTHLY_TOKENS, 1_000_000),
+  };
+}
+
+export function costOf(usage: Usage, price: Price) {
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+// ---------- Stores ----------
+export function memoryStore(): UsageStore {
+  const entries: UsageEntry[] = [];
+  return {
+    id: "memory",
+    async record(entry) { entries.push(entry); },
+    async since(key, from) { return entries.filter((e) => matches(e, key) && e.at >= from); },
+  };
+}
+
+// One JSON object per line; read in full on every check, which is fine for one household's dev data
+export function fileStore(path: string): UsageStore {
+  return {
+    id: "file",
+    async record(entry) {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, `${JSON.stringify(entry)}\n`);
+    },
+    async since(key, from) {
+      const text = await readFile(path, "utf8").catch(() => "");
+      return text
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => JSON.parse(line) as UsageEntry)
+        .filter((e) => matches(e, key) && e.at >= from);
+    },
+  };
+}
+
+// tutor_usage table (supabase/migrations/*_tutor_usage.sql), written with the service role key
+type UsageRow = {
+  account: string | null; // null on rows recorded before accounts
+  profile_id: string;
+  at: string;
+  kind: UsageKind;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+};
+const PAGE_SIZE = 1000;
+export function supabaseStore(url: string, serviceKey: string): UsageStore {
+  const db = createClient(url, serviceKey, { auth: { persistSession: false } });
+  return {
+    id: "supabase",
+    async record(e) {
+      const row: UsageRow = {
+        account: e.account, profile_id: e.profileId, at: new Date(e.at).toISOString(), kind: e.kind, model: e.model,
+        prompt_tokens: e.promptTokens, completion_tokens: e.completionTokens, cost_usd: e.costUsd,
+      };
+      const { error } = await db.from("tutor_usage").insert(row);
+      if (error) throw new Error(error.message);
+    },
+    // Paged: PostgREST returns at most 1000 rows per request, and a month can hold more
+    async since(key, from) {
+      const [column, value] = "account" in key ? ["account", key.account] : ["profile_id", key.profileId];
+      const rows: UsageRow[] = [];
+      for (let start = 0; ; start += PAGE_SIZE) {
+        const { data, error } = await db
+          .from("tutor_usage")
+          .select("account, profile_id, at, kind, model, prompt_tokens, completion_tokens, cost_usd")
+          .eq(column, value)
+          .gte("at", new Date(from).toISOString())
+          .order("id", { ascending: true })
+          .range(start, start + PAGE_SIZE - 1);
+        if (error) throw new Error(error.message);
+        rows.push(...(data as UsageRow[]));
+        if (data.length < PAGE_SIZE) break;
+      }
+      return rows.map((r) => ({
+        account: r.account ?? "", profileId: r.profile_id, at: new Date(r.at).getTime(), kind: r.kind, model: r.model,
+        promptTokens: r.prompt_tokens, completionTokens: r.completion_tokens, costUsd: Number(r.cost_usd),
+      }));
+    },
+  };
+}
+
+// USAGE_STORE = memory | file | supabase. Defaults to Supabase when SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY are set, otherwise memory (lost when the function instance recycles).
+// The file store writes to USAGE_FILE (default .netlify/usage.jsonl).
+export function usageStoreFromEnv(env: Record<string, string | undefined> = process.env): UsageStore | { error: string } {
+  const url = env.SUPABASE_URL;
+  const key = env.SUPABASE_SERVICE_ROLE_KEY;
+  const kind = (env.USAGE_STORE ?? (url && key ? "supabase" : "memory")).toLowerCase();
+  if (kind === "memory") return memoryStore();
+  if (kind === "file") return fileStore(env.USAGE_FILE || ".netlify/usage.jsonl");
+  if (kind === "supabase") return url && key ? supabaseStore(url, key) : { error: "missing_supabase_service_key" };
+  return { error: "unknown_usage_store" };
+}
+
+// ---------- Checks & reports ----------
+const MINUTE = 60_000;
+const dayStart = (now: number) => { const d = new Date(now); return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()); };
+const monthStart = (now: number) => { const d = new Date(now); return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1); };
+const nextMonth = (now: number) => { const d = new Date(now); return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1); };
+
+function totals(entries: UsageEntry[]): UsageTotals {
+  return entries.reduce(
+    (t, e) => ({ requests: t.requests + 1, tokens: t.tokens + e.promptTokens + e.completionTokens, costUsd: t.costUsd + e.costUsd }),
+    { requests: 0, tokens: 0, costUsd: 0 }
+  );
+}
+
+export async function checkLimits(store: UsageStore, account: string, limits: Limits, now = Date.now()): Promise<LimitCheck> {
+  const entries = await store.since({ account }, Math.min(monthStart(now), now - MINUTE));
+  const seconds = (ms: number) => Math.max(1, Math.ceil(ms / 1000));
+
+  const lastMinute = entries.filter((e) => e.at > now - MINUTE);
+  if (limits.perMinute && lastMinute.length >= limits.perMinute) {
+    const oldest = Math.min(...lastMinute.map((e) => e.at));
+    return { ok: false, error: "rate_limited", retryAfter: seconds(oldest + MINUTE - now) };
+  }
+  const month = entries.filter((e) => e.at >= monthStart(now));
+  if (limits.monthlyTokens && totals(month).tokens >= limits.monthlyTokens) {
+    return { ok: false, error: "monthly_budget", retryAfter: seconds(nextMonth(now) - now) };
+  }
+  const today = month.filter((e) => e.at >= dayStart(now));
+  if (limits.dailyTokens && totals(today).tokens >= limits.dailyTokens) {
+    return { ok: false, error: "daily_budget", retryAfter: seconds(dayStart(now) + 24 * 60 * MINUTE - now) };
+  }
+  return { ok: true };
+}
+
+// What the parent dashboard shows for one child, or for the whole account
+export async function usageReport(store: UsageStore, key: UsageKey, now = Date.now()) {
+  const month = await store.since(key, monthStart(now));
+  return { today: totals(month.filter((e) => e.at >= dayStart(now))), month: totals(month) };
+}
@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+// ---- Tricky-word cards ----
+// Kid-friendly definition + example sentence for the review deck.
+
+const Definition = z.object({
+  definition: z.string().min(1).max(300),
+  example: z.string().min(1).max(300),
+});
+export type WordDefinition = z.infer<typeof Definition>;
+
+export const MAX_WORD_LENGTH = 40;
+
+export function buildDefinePrompt(word: string, grade: string) {
+  return `Define the word "${word}" for a ${grade}-grade student.
+
+Reply with ONLY a JSON object shaped like this:
+{"definition": string, "example": string}
+- "definition": one short, friendly sentence in plain words. Don't use the word itself.
+- "example": one short sentence that uses the word the way a kid would.`;
+}
+
+export function parseDefinition(text: string): WordDefinition | null {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end <= start) return null;
+  try {
+    const parsed = Definition.safeParse(JSON.parse(text.slice(start, end + 1)));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Deterministic card for mock mode
+export function mockDefinition(word: string): WordDefinition {
+  return {
+    definition: `A word we are learning. Ask a grown-up or look it up to learn what "${word}" means.`,
+    example: `Today I practiced the word "${word}".`,
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { mockWritingFeedback, parseWritingFeedback } from "./writing";
+
+const draft = "My dog is named Max.\nHe likes to run in the park.";
+const reply = (comments: object[]) => JSON.stringify({
+  summary: "A clear topic.",
+  scores: { ideas: 3, organization: "2", conventions: 3, word_choice: 2 },
+  comments,
+  nextStep: "Add a detail.",
+});
+
+describe("parseWritingFeedback", () => {
+  it("reads JSON wrapped in a fence or a sentence", () => {
+    const feedback = parseWritingFeedback(`Here you go:\n\`\`\`json\n${reply([])}\n\`\`\``, draft);
+    expect(feedback?.scores).toEqual({ ideas: 3, organization: 2, conventions: 3, word_choice: 2 });
+  });
+
+  it("keeps quotes found in the draft, ignoring spacing and case, and clears the rest", () => {
+    const feedback = parseWritingFeedback(reply([
+      { trait: "ideas", quote: "my dog is named max. he likes", comment: "Nice start." },
+      { trait: "conventions", quote: "He like to run", comment: "Check the verb." },
+      { trait: "organization", comment: "Add an ending." },
+    ]), draft);
+    expect(feedback?.comments.map((c) => c.quote)).toEqual(["my dog is named max. he likes", "", ""]);
+  });
+
+  it("gives up on anything that isn't the feedback shape", () => {
+    expect(parseWritingFeedback("Sorry, I can't help with that.", draft)).toBeNull();
+    expect(parseWritingFeedback('{"summary": "ok"}', draft)).toBeNull();
+    expect(parseWritingFeedback(reply([{ trait: "spelling", quote: "", comment: "x" }]), draft)).toBeNull();
+  });
+});
+
+describe("mockWritingFeedback", () => {
+  it("quotes sentences the client can highlight", () => {
+    const feedback = mockWritingFeedback(draft);
+    expect(parseWritingFeedback(JSON.stringify(feedback), draft)).toEqual(feedback);
+    expect(feedback.comments.map((c) => c.quote)).toEqual(["My dog is named Max.", "He likes to run in the park.", ""]);
+  });
+});
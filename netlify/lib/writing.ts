@@ -0,0 +1,95 @@
+import { z } from "zod";
+
+// ---- Writing coach ----
+// Rubric feedback on a pasted draft, as JSON: a 1-4 score per trait plus comments that quote
+// the sentence they are about, so the client can highlight them in the draft.
+
+export const MAX_DRAFT_LENGTH = 6000;
+export const TRAITS = ["ideas", "organization", "conventions", "word_choice"] as const;
+
+const Score = z.coerce.number().int().min(1).max(4);
+const Comment = z.object({
+  trait: z.enum(TRAITS),
+  quote: z.string().max(300).default(""), // copied from the draft; "" = about the whole piece
+  comment: z.string().min(1).max(300),
+  suggestion: z.string().max(300).optional(),
+});
+const ModelFeedback = z.object({
+  summary: z.string().min(1).max(600),
+  scores: z.object({ ideas: Score, organization: Score, conventions: Score, word_choice: Score }),
+  comments: z.array(Comment).max(12),
+  nextStep: z.string().min(1).max(300),
+});
+export type WritingFeedback = z.infer<typeof ModelFeedback>;
+
+const squash = (s: string) => s.replace(/\s+/g, " ").trim().toLowerCase();
+
+export function buildWritingPrompt(draft: string, grade: string, dyslexia: boolean, previous?: string) {
+  const style = dyslexia
+    ? "Use short sentences and plain words in every comment."
+    : "Keep comments short and clear.";
+  const revision = previous
+    ? `\nThis is a revision. The earlier version was:\n<<<\n${previous}\n>>>\nIn "summary", start with one thing that got better.\n`
+    : "";
+  return `Give writing feedback to a ${grade}-grade student on this draft:
+<<<
+${draft}
+>>>
+${revision}
+Score each trait from 1 to 4 (1 = just starting, 2 = getting there, 3 = on target for grade ${grade}, 4 = above target):
+- ideas: a clear main idea with details that support it
+- organization: a beginning, middle and end; ideas in an order that makes sense
+- conventions: spelling, capital letters, punctuation, grammar
+- word_choice: precise, lively words; no repeated or vague ones
+
+Reply with ONLY a JSON object shaped like this:
+{"summary": string, "scores": {"ideas": number, "organization": number, "conventions": number, "word_choice": number}, "comments": [{"trait": "ideas" | "organization" | "conventions" | "word_choice", "quote": string, "comment": string, "suggestion": string}], "nextStep": string}
+- 3 to 8 comments, mixing praise and fixes. Every comment is about one sentence or phrase.
+- "quote" is copied EXACTLY from the draft (one sentence or a few words), so it can be highlighted.
+- "suggestion" shows a better way to write it; leave it out for praise.
+- Don't rewrite the whole piece. "nextStep" is the one thing to work on in the next draft.
+${style}`;
+}
+
+// Models sometimes wrap JSON in ``` fences or add a sentence around it
+function extractJson(text: string): unknown {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end <= start) return null;
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+// Quotes the model didn't copy faithfully can't be highlighted; they stay as general comments
+export function parseWritingFeedback(text: string, draft: string): WritingFeedback | null {
+  const parsed = ModelFeedback.safeParse(extractJson(text));
+  if (!parsed.success) return null;
+  const haystack = squash(draft);
+  return {
+    ...parsed.data,
+    comments: parsed.data.comments.map((c) => (c.quote && haystack.includes(squash(c.quote)) ? c : { ...c, quote: "" })),
+  };
+}
+
+// Deterministic feedback for mock mode, quoting the first and last sentences of the draft
+export function mockWritingFeedback(draft: string): WritingFeedback {
+  const sentences = draft.match(/[^.!?\n]+[.!?]?/g)?.map((s) => s.trim()).filter(Boolean) ?? [];
+  const first = sentences[0] ?? "";
+  const last = sentences[sentences.length - 1] ?? "";
+  return {
+    summary: "You have a clear topic and you stuck with it. Let's make the middle stronger.",
+    scores: { ideas: 3, organization: 2, conventions: 3, word_choice: 2 },
+    comments: [
+      { trait: "ideas", quote: first.slice(0, 300), comment: "Great opening. I know right away what this is about." },
+      {
+        trait: "word_choice", quote: last.slice(0, 300), comment: "This ending is a bit plain.",
+        suggestion: "Try a word that shows how you felt, like \"thrilled\" or \"proud\".",
+      },
+      { trait: "organization", quote: "", comment: "Add a transition word (first, next, finally) between your ideas." },
+    ],
+    nextStep: "Add one more detail in the middle that shows what happened.",
+  };
+}
@@ -0,0 +1,54 @@
+import { useMemo, useState } from "react";
+import { checkAnswer, findCheckQuestion, forms } from "./arithmetic";
+import { renderInlineMarkdown } from "./markdown";
+
+type Feedback = { kind: "right" | "wrong" | "unreadable"; text: string };
+
+// Answer box for the check question at the end of a tutor answer. Only shown when the question
+// is plain arithmetic the browser can work out; everything else is left to the conversation.
+export default function AnswerCheck(props: {
+  response: string;
+  onResult: (correct: boolean, note: string) => void; // logged as a win or a miss on the session
+  onHint: () => void;
+  disabled: boolean;
+}) {
+  const check = useMemo(() => findCheckQuestion(props.response), [props.response]);
+  const [answer, setAnswer] = useState("");
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  if (!check) return null;
+
+  function submit() {
+    if (!check || !answer.trim()) return;
+    const result = checkAnswer(check.answer, answer);
+    if (!result.ok) {
+      setFeedback({ kind: "unreadable", text: "I can only check numbers, like 6/5, 1 1/5 or 1.2. Try writing it that way." });
+      return;
+    }
+    const given = answer.trim();
+    if (result.correct) {
+      setFeedback({ kind: "right", text: `Yes! ${check.expression} = ${forms(check.answer).join(" = ")}` });
+      props.onResult(true, `${check.expression} = ${given}`);
+    } else {
+      setFeedback({ kind: "wrong", text: `Not quite. ${given} isn't it yet. Want a hint?` });
+      props.onResult(false, `${check.expression}: answered ${given}`);
+    }
+  }
+
+  return (
+    <section className="card mb-3">
+      <div className="font-medium mb-2">Your answer</div>
+      <div className="mb-2" dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(check.question) }} />
+      <form className="flex flex-wrap items-center gap-2" onSubmit={e => { e.preventDefault(); submit(); }}>
+        <input className="border rounded px-2 py-1" value={answer} inputMode="decimal" aria-label="Your answer"
+          placeholder="e.g. 6/5 or 1 1/5" onChange={e => { setAnswer(e.target.value); setFeedback(null); }} />
+        <button type="submit" className="btn btn-primary">Check</button>
+        {feedback?.kind === "wrong" && (
+          <button type="button" className="btn btn-outline" onClick={props.onHint} disabled={props.disabled}>Get a hint</button>
+        )}
+      </form>
+      <div className="mt-2 text-sm min-h-[1.25rem]" aria-live="polite">
+        {feedback && <span className={feedback.kind === "right" ? "font-medium" : ""}>{feedback.text}</span>}
+      </div>
+    </section>
+  );
+}
@@ -1,229 +1,62 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import "./index.css";
-import { openDB } from "idb";
+import { limitMessage, postTutor, readTutorStream } from "./api";
+import { useParentSession } from "./auth";
+import { requireParentPin } from "./parentPin";
+import ParentSettings from "./ParentSettings";
+import DictationButton from "./DictationButton";
+import ImageAttach from "./ImageAttach";
+import { saveSessionImages, type TutorImage } from "./images";
+import OfflineBanner from "./OfflineBanner";
+import { queueQuestion, removeQueued, useOnline, useOutbox, type QueuedQuestion, type SendResult } from "./outbox";
+import AnswerCheck from "./AnswerCheck";
+import ReadingBadge from "./ReadingBadge";
+import WritingCoach from "./WritingCoach";
+import TodoList from "./TodoList";
+import PromptEditor from "./PromptEditor";
+import { checkPrompts, fillTemplate, HINT_ACTION, normalizePrompts, subjectNote, type QuickAction } from "./prompts";
+import { readability, rewriteRequest, tooHard } from "./readability";
+import { classifySkills, type Skill } from "./skills";
+import { clearMastery, recordAttempts } from "./mastery";
+import { loadAssignments, recordQuestion, recordTest, startAssignment, type Assignment } from "./assignments";
 import { supabase } from "./supabase";
-import { marked } from "marked";
-import DOMPurify from "dompurify";
-import markedKatex from "marked-katex-extension";
-import "katex/dist/katex.min.css";
+import { renderMarkdown } from "./markdown";
+import PracticeTestCard from "./PracticeTestCard";
+import ReviewDeck from "./ReviewDeck";
+import ParentDashboard from "./ParentDashboard";
+import HistoryBrowser from "./HistoryBrowser";
+import ReadAloud from "./ReadAloud";
+import VoiceSettings from "./VoiceSettings";
+import BackupPanel from "./BackupPanel";
+import type { RestorePlan } from "./backup";
+import { flagsOf, logFlags, readFlagged, STRICTNESS, STRICTNESS_LABELS, type Strictness } from "./moderation";
+import { PracticeTestSchema, testToText, type PracticeTest, type TestResult } from "./practiceTest";
+import {
+  addTombstones, defaultProfiles, FONT_MAP, GRADES, loadLocalProfiles, loadTombstones, mergeProfiles, newProfile, syncProfiles,
+  type FontSize, type GradeLevel, type InputMode, type LineSpacing, type Profile, type ProfilePrefs, type Theme,
+} from "./profiles";
+import { useSessionSync } from "./sync";
+import {
+  clearHistory, saveSession, saveTestResult, updateSessionNotes,
+} from "./sessions";
+import { SUBJECTS } from "./stats";
+import { appendTurns, emptyThread, historyFor, loadThread, resetThread, type Thread } from "./threads";
 
 type Subject = "reading" | "writing" | "math" | "science" | "study";
-type Theme = "light" | "dark" | "high-contrast";
-type GradeLevel = "K"|"1"|"2"|"3"|"4"|"5"|"6"|"7"|"8";
-type FontSize = "sm"|"md"|"lg"|"xl";
-type LineSpacing = 1.6|1.8|2.0;
-
-const FONT_MAP: Record<FontSize, number> = { sm: 15, md: 17, lg: 19, xl: 21 };
-const GRADES: GradeLevel[] = ["K","1","2","3","4","5","6","7","8"];
-
-// Relative (same-origin) Netlify Function by default
-const PROXY_URL = import.meta.env.VITE_PROXY_URL || "";
-
-// KaTeX for inline $...$ and block $$...$$
-marked.use(markedKatex({ throwOnError: false }));
-
-// -------- keep THIS normalizeMath exactly as requested --------
-function normalizeMath(input: string) {
-  let s = input;
-
-  // Convert \( ... \) and \[ ... \] to $...$ / $$...$$ if they appear
-  s = s.replace(/\\\(([\s\S]*?)\\\)/g, (_, m) => `$${m}$`);
-  s = s.replace(/\\\[([\s\S]*?)\\\]/g, (_, m) => `$$${m}$$`);
-
-  // Wrap plain parentheses that contain LaTeX commands like \frac, \sqrt, \times, \div, \cdot
-  // Example: ( \frac{2}{3} )  ->  $\frac{2}{3}$
-  s = s.replace(/\(\s*\\(frac|sqrt|times|div|cdot|sum|prod|int)[^)]*\)/g, (m) => {
-    const inner = m.slice(1, -1).trim(); // drop outer ( )
-    return `$${inner}$`;
-  });
-
-  return s;
-}
-
-// =============== Types for Profiles ===============
-interface Profile {
-  id: string;
-  name: string;
-  grade: GradeLevel;
-  dyslexiaAssist: boolean;
-}
-const DEFAULT_PROFILES: Profile[] = [
-  { id: "p1", name: "Daughter", grade: "6", dyslexiaAssist: true },
-  { id: "p2", name: "Son", grade: "3", dyslexiaAssist: false },
-];
-
-// =============== IndexedDB helpers ===============
-async function ensureDB() {
-  return openDB("tutor-db", 1, {
-    upgrade(db) {
-      if (!db.objectStoreNames.contains("sessions")) {
-        const s = db.createObjectStore("sessions", { keyPath: "id" });
-        s.createIndex("by_profile_created", ["profileId", "createdAt"]);
-      }
-    },
-  });
-}
-async function saveSession(entry: {
-  profileId: string;
-  subject: string;
-  prompt: string;
-  response: string;
-  confusingWords?: string[];
-  wins?: string[];
-}) {
-  const db = await ensureDB();
-  const id = crypto.randomUUID();
-  await db.put("sessions", { id, createdAt: Date.now(), ...entry });
-  return id;
-}
-async function updateSessionNotes(id: string, notes: { confusingWords?: string[]; wins?: string[] }) {
-  const db = await ensureDB();
-  const row: any = await db.get("sessions", id);
-  if (!row) return;
-  await db.put("sessions", { ...row, confusingWords: notes.confusingWords ?? row.confusingWords, wins: notes.wins ?? row.wins });
-}
-async function loadRecent(profileId: string, limit = 5) {
-  const db = await ensureDB();
-  const store = db.transaction("sessions").store as any;
-  const all = await store.getAll();
-  return all
-    .filter((r: any) => r.profileId === profileId)
-    .sort((a: any, b: any) => b.createdAt - a.createdAt)
-    .slice(0, limit);
-}
-async function clearHistory(profileId?: string) {
-  const db = await ensureDB();
-  if (!profileId) return db.clear("sessions");
-  const all = (await db.getAll("sessions")) as any[];
-  const tx = db.transaction("sessions", "readwrite");
-  const store = tx.store;
-  for (const row of all) if (row.profileId === profileId) await store.delete(row.id);
-  await tx.done;
-}
-async function exportSessions(profileId: string) {
-  const db = await ensureDB();
-  const all = await db.getAll("sessions");
-  const mine = all.filter((r: any) => r.profileId === profileId);
-  const blob = new Blob([JSON.stringify(mine, null, 2)], { type: "application/json" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url; a.download = `sessions-${profileId}.json`; a.click();
-  URL.revokeObjectURL(url);
-}
-async function importSessions(profileId: string, file: File) {
-  const text = await file.text();
-  const rows = JSON.parse(text);
-  const db = await ensureDB();
-  const tx = db.transaction("sessions", "readwrite");
-  const store = tx.store;
-  for (const r of rows) {
-    await store.put({
-      id: r.id ?? crypto.randomUUID(),
-      profileId,
-      subject: r.subject ?? "study",
-      prompt: r.prompt ?? "",
-      response: r.response ?? "",
-      confusingWords: r.confusingWords ?? undefined,
-      wins: r.wins ?? undefined,
-      createdAt: r.createdAt ?? Date.now(),
-    });
-  }
-  await tx.done;
-}
-
-// =============== Cloud sync ===============
-async function syncToCloud(profileId: string) {
-  const db = await ensureDB();
-  const all = await db.getAll("sessions");
-  const mine = all.filter((r: any) => r.profileId === profileId);
-  if (mine.length === 0) return alert("Nothing to sync.");
-
-  const rows = mine.map((r: any) => ({
-    id: r.id,
-    profile_id: r.profileId,
-    subject: r.subject,
-    prompt: r.prompt,
-    response: r.response,
-    confusing_words: r.confusingWords ?? null,
-    wins: r.wins ?? null,
-    created_at: new Date(r.createdAt).toISOString(),
-  }));
-
-  const { error, count } = await supabase
-    .from("sessions_cloud")
-    .upsert(rows, { onConflict: "id", ignoreDuplicates: false, count: "exact" });
-
-  if (error) alert(`Sync failed: ${error.message}`);
-  else alert(`Synced ${count ?? rows.length} rows to cloud ✅`);
-}
-async function pullFromCloud(profileId: string) {
-  const { data, error } = await supabase
-    .from("sessions_cloud")
-    .select("*")
-    .eq("profile_id", profileId)
-    .order("created_at", { ascending: false })
-    .limit(50);
-
-  if (error) { alert(`Pull failed: ${error.message}`); return { pulled: 0, recent: [] as any[] }; }
-  if (!data || data.length === 0) { alert("No cloud sessions found."); return { pulled: 0, recent: [] as any[] }; }
-
-  const db = await ensureDB();
-  const tx = db.transaction("sessions", "readwrite");
-  const store = tx.store;
-  for (const r of data) {
-    await store.put({
-      id: r.id,
-      profileId: r.profile_id,
-      subject: r.subject,
-      prompt: r.prompt,
-      response: r.response,
-      confusingWords: r.confusing_words ?? undefined,
-      wins: r.wins ?? undefined,
-      createdAt: new Date(r.created_at).getTime(),
-    });
-  }
-  await tx.done;
-
-  const recent = await loadRecent(profileId, 5);
-  return { pulled: data.length, recent };
-}
 
 // =============== UX helpers ===============
-function speak(text: string) {
-  try { const u = new SpeechSynthesisUtterance(text); u.rate = 1.0; window.speechSynthesis.cancel(); window.speechSynthesis.speak(u); } catch {}
-}
 async function copy(text: string) {
   try { await navigator.clipboard.writeText(text); alert("Copied!"); }
   catch { alert("Couldn’t copy to clipboard."); }
 }
 
-// Build a prompt for generating a short practice test + answer key
-function buildTestPrompt(msg: string, grade: string, subject: string, dyslexia: boolean) {
-  const count =
-    grade === "K" || grade === "1" || grade === "2" ? 4 :
-    grade === "3" || grade === "4" ? 5 :
-    grade === "5" ? 6 : 8;
-  const style = dyslexia
-    ? "Use short sentences, plain words, clear formatting, and simple layout."
-    : "Keep it concise and clear.";
-  return `${msg}
-
-Please generate a short ${subject} practice test with ${count} numbered questions.
-- Do NOT include solutions next to the questions.
-- After the questions, add a section titled "Answer Key" with numbered answers only.
-- Prefer plain text; use simple LaTeX for math.
-${style}`;
-}
-
 // =============== Component ===============
 export default function App() {
   // ---------- Profiles store ----------
-  const [profiles, setProfiles] = useState<Profile[]>(() => {
-    const saved = localStorage.getItem("profiles");
-    return saved ? JSON.parse(saved) : DEFAULT_PROFILES;
-  });
+  const [profiles, setProfiles] = useState<Profile[]>(loadLocalProfiles);
+  // Which kid is using this device stays local; everything else about a profile syncs
   const [currentProfileId, setCurrentProfileId] = useState<string>(() => {
-    return localStorage.getItem("currentProfileId") || "p1";
+    return localStorage.getItem("currentProfileId") || "";
   });
   const currentProfile = profiles.find(p => p.id === currentProfileId) || profiles[0];
   const [profile, setProfile] = useState<Profile>(currentProfile);
@@ -233,34 +66,68 @@ export default function App() {
   useEffect(() => {
     const found = profiles.find(p => p.id === currentProfileId);
     if (found) setProfile(found);
+    else if (profiles[0]) setCurrentProfileId(profiles[0].id); // deleted here or on another device
   }, [profiles, currentProfileId]);
 
-  // Theme (persisted)
-  const [theme, setTheme] = useState<Theme>(() => (localStorage.getItem("theme") as Theme) || "light");
+  function updateProfile(id: string, patch: Partial<Omit<Profile, "id" | "updatedAt">>) {
+    setProfiles(prev => prev.map(p => p.id === id ? { ...p, ...patch, updatedAt: Date.now() } : p));
+  }
+  const setPref = (patch: Partial<ProfilePrefs>) => updateProfile(profile.id, { prefs: { ...profile.prefs, ...patch } });
+
+  // Profiles sync with the household's cloud copy after sign-in and (debounced) after every edit
+  const parentSession = useParentSession();
+  const householdId = parentSession?.user.id ?? null;
+  useEffect(() => {
+    if (!householdId) return;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await syncProfiles(householdId, profiles, loadTombstones());
+        addTombstones(result.tombstones);
+        // Re-merge so edits made while the request was in flight aren't lost
+        setProfiles(prev => {
+          const next = mergeProfiles(prev, loadTombstones(), result.profiles.map(p => ({ profile: p, deleted: false }))).profiles;
+          return JSON.stringify(next) === JSON.stringify(prev) ? prev : next;
+        });
+      } catch (e) {
+        console.warn("Profile sync failed:", e);
+      }
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [householdId, profiles]);
+
+  // Theme and typography come from the active profile
+  const { theme, fontSize, lineSpacing } = profile.prefs;
   useEffect(() => {
-    localStorage.setItem("theme", theme);
     const el = document.documentElement;
     el.classList.remove("theme-light","theme-dark","theme-hc");
     el.classList.add(theme === "light" ? "theme-light" : theme === "dark" ? "theme-dark" : "theme-hc");
   }, [theme]);
 
-  // Parent PIN (persisted)
-  const [parentPin, setParentPin] = useState<string>(() => localStorage.getItem("parentPin") || "1234");
-  useEffect(() => { localStorage.setItem("parentPin", parentPin); }, [parentPin]);
-
-  // Typography (persisted)
-  const [fontSize, setFontSize] = useState<FontSize>(() => (localStorage.getItem("fontSize") as FontSize) || "md");
-  const [lineSpacing, setLineSpacing] = useState<LineSpacing>(() => (Number(localStorage.getItem("lineSpacing")) as LineSpacing) || 1.8);
-  useEffect(() => { localStorage.setItem("fontSize", fontSize); }, [fontSize]);
-  useEffect(() => { localStorage.setItem("lineSpacing", String(lineSpacing)); }, [lineSpacing]);
-
   // Tutor UI
   const [subject, setSubject] = useState<Subject>("math");
   const [message, setMessage] = useState("I’m working on dividing fractions.");
   const [response, setResponse] = useState("");
-  const [showAnswers, setShowAnswers] = useState(true);
-  const [recent, setRecent] = useState<any[]>([]);
+  // A practice test on screen; `profileId` and `subject` say where it belongs (it may be a saved test redone from history)
+  const [practice, setPractice] = useState<{
+    sessionId: string; profileId: string; subject: Subject; test: PracticeTest; result: TestResult | null;
+  } | null>(null);
+  // Bumped when sessions change outside the history view (sync, import, clear) so it reloads
+  const [historyVersion, setHistoryVersion] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [thread, setThread] = useState<Thread | null>(null);
+
+  // Load the running thread whenever the profile or subject changes
+  useEffect(() => {
+    let cancelled = false;
+    setPractice(p => (p && p.profileId === profile.id && p.subject === subject ? p : null));
+    loadThread(profile.id, subject).then(t => {
+      if (cancelled) return;
+      setThread(t);
+      const last = [...t.turns].reverse().find(turn => turn.role === "assistant");
+      setResponse(last?.content ?? "");
+    });
+    return () => { cancelled = true; };
+  }, [profile.id, subject]);
 
   // Notes for last session
   const [lastSessionId, setLastSessionId] = useState<string | null>(null);
@@ -268,6 +135,16 @@ export default function App() {
   const [winInput, setWinInput] = useState("");
   const [lastConfusing, setLastConfusing] = useState<string[]>([]);
   const [lastWins, setLastWins] = useState<string[]>([]);
+  const [lastMisses, setLastMisses] = useState<string[]>([]);
+  const [lastSkills, setLastSkills] = useState<string[]>([]);
+
+  // Homework: turns and tests in the active assignment's subject count toward it
+  const [assignmentList, setAssignmentList] = useState<Assignment[]>([]);
+  const [activeAssignmentId, setActiveAssignmentId] = useState<string | null>(null);
+  const activeAssignment = assignmentList.find(a => a.id === activeAssignmentId && !a.completedAt) ?? null;
+  const keepAssignment = (row: Assignment | null) => {
+    if (row) setAssignmentList(list => list.map(a => (a.id === row.id ? row : a)));
+  };
 
   // Supabase smoke test
   async function testSupabase() {
@@ -278,59 +155,221 @@ export default function App() {
     } catch (e: any) { alert(`Supabase NOT reachable ❌: ${e?.message ?? e}`); }
   }
 
-  // Network call
-  async function callTutor(body: { subject: Subject; message: string }) {
+  // Network call (streamed; Stop aborts it and keeps whatever arrived).
+  // `rewrite` marks the automatic "simpler please" follow-up, which carries the thread it follows
+  // (state doesn't have it yet) and is never followed by another one.
+  const abortRef = useRef<AbortController | null>(null);
+  const [rewritten, setRewritten] = useState(false);
+  const [attachments, setAttachments] = useState<TutorImage[]>([]);
+  async function callTutor(body: { subject: Subject; message: string; images?: TutorImage[] }, rewrite?: { thread: Thread }) {
+    const images = body.images ?? [];
+    if (!online && !rewrite) return saveForLater(body);
+    setLoading(true);
+    setRewritten(!!rewrite);
+    setResponse("");
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let text = "";
+    let failed = false; // the tutor answered with an error, or the answer broke off
+    try {
+      const r = await postTutor({
+        profile: { id: profile.id, grade: profile.grade, dyslexiaAssist: profile.dyslexiaAssist, safety: profile.safety },
+        subject: body.subject,
+        message: body.message,
+        images,
+        subjectNote: subjectNote(profile.prompts, body.subject),
+        history: historyFor(rewrite ? rewrite.thread : thread),
+        stream: true,
+      }, controller.signal).catch(() => null);
+      // Only a request that never got there waits in the outbox; rewrites are just dropped
+      if (!r) {
+        if (controller.signal.aborted) return;
+        return rewrite ? setResponse("Couldn’t reach the tutor proxy.") : saveForLater(body);
+      }
+      const blocked = await readFlagged(r);
+      if (blocked) {
+        await logFlags(profile.id, body.subject, [blocked.flag]);
+        setResponse(blocked.message);
+        return;
+      }
+      const limited = await limitMessage(r);
+      if (limited) return setResponse(limited);
+      if (r.status === 415) return setResponse("This tutor can’t look at photos. Please type the problem in instead.");
+      if (!r.ok || !r.body) throw new Error("proxy");
+      await readTutorStream(
+        r.body,
+        delta => { text += delta; setResponse(text); },
+        (flags, replacement) => {
+          logFlags(profile.id, body.subject, flags);
+          if (replacement !== undefined) { text = ""; setResponse(replacement); }
+        },
+      );
+    } catch {
+      failed = !controller.signal.aborted;
+    } finally {
+      abortRef.current = null;
+      setLoading(false);
+    }
+    if (failed && !text) return setResponse("The tutor ran into a problem. Please try again in a moment.");
+    if (!text) return;
+    // Like Stop, a broken-off answer keeps what arrived
+    if (failed) setResponse(`${text}\n\n*(The answer stopped partway. Ask again for the rest.)*`);
+
+    if (images.length) setAttachments([]);
+    const next = await recordAnswer({ ...body, profileId: profile.id, prompt: message, images }, text, !!rewrite);
+    if (!rewrite && !failed && !controller.signal.aborted && tooHard(readability(text), profile.grade)) {
+      await callTutor({ subject: body.subject, message: rewriteRequest(profile.grade) }, { thread: next });
+    }
+  }
+
+  // Keep an answer: thread, session row, photos and homework progress. Homework, the notes card
+  // and the thread view only follow it when it is for the profile and subject on screen (a
+  // queued question may not be).
+  async function recordAnswer(
+    q: { profileId: string; subject: Subject; message: string; prompt: string; images: TutorImage[] },
+    text: string,
+    rewrite: boolean,
+  ) {
+    const here = q.profileId === profile.id;
+    const grade = profiles.find(p => p.id === q.profileId)?.grade ?? profile.grade;
+    // Later turns only carry text, so the thread notes that a photo was sent
+    const asked = q.images.length ? `${q.message}\n(sent a photo of my worksheet)`.trim() : q.message;
+    const now = Date.now();
+    const next = await appendTurns(q.profileId, q.subject, [
+      { role: "user", content: asked, at: now },
+      { role: "assistant", content: text, at: now },
+    ]);
+
+    // A rewrite is about the same thing as the answer it replaces
+    const skills = rewrite ? lastSkills : classifySkills(`${q.message}\n${text}`, grade, q.subject);
+    const id = await saveSession({
+      profileId: q.profileId, subject: q.subject, prompt: q.images.length ? asked : q.prompt, response: text, confusingWords: [], wins: [], skills,
+    });
+    await saveSessionImages(id, q.profileId, q.images);
+    if (!here) return next;
+    if (!rewrite && activeAssignment?.subject === q.subject) keepAssignment(await recordQuestion(activeAssignment.id, id));
+    if (q.subject === subject) {
+      setThread(next);
+      setLastSessionId(id); setLastConfusing([]); setLastWins([]); setLastMisses([]); setLastSkills(skills);
+    }
+    return next;
+  }
+
+  // ---------- Offline ----------
+  // Questions asked offline wait in the outbox and are answered when the connection is back
+  const online = useOnline();
+  async function saveForLater(body: { subject: Subject; message: string; images?: TutorImage[] }) {
+    await queueQuestion({
+      profileId: profile.id, subject: body.subject, message: body.message, prompt: message, images: body.images,
+      subjectNote: subjectNote(profile.prompts, body.subject),
+    });
+    setAttachments([]);
+    setResponse("I can’t reach the tutor right now, so I saved your question. It will be sent as soon as you’re back online.");
+  }
+  async function onQueuedResult(item: QueuedQuestion, result: Exclude<SendResult, { kind: "wait" }>) {
+    const here = item.profileId === profile.id && item.subject === subject;
+    if (result.kind === "answer") {
+      await logFlags(item.profileId, item.subject, result.flags);
+      await recordAnswer({ ...item, images: item.images ?? [] }, result.text, false);
+      if (here) { setRewritten(false); setResponse(result.text); }
+    } else if (result.kind === "blocked") {
+      await logFlags(item.profileId, item.subject, [result.flag]);
+      if (here) setResponse(result.message);
+    } else if (here) setResponse(result.message);
+    refreshHistory();
+  }
+  const outbox = useOutbox(profile, onQueuedResult);
+  function stopTutor() { abortRef.current?.abort(); }
+
+  const ask = () => callTutor({ subject, message, images: attachments });
+
+  // Practice test: structured questions from the function, graded here.
+  // `topic` overrides the subject and message box (practice started from the dashboard).
+  async function generateTest(topic?: { subject: Subject; message: string }) {
+    const { subject: testSubject, message: testMessage } = topic ?? { subject, message };
+    if (!online) return alert("New practice tests need the internet. You can redo a saved one from History.");
     setLoading(true);
     try {
-      const r = await fetch(`${PROXY_URL}/.netlify/functions/tutor`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          profile: { grade: profile.grade, dyslexiaAssist: profile.dyslexiaAssist },
-          subject: body.subject,
-          message: body.message,
-        }),
+      const r = await postTutor({
+        profile: { id: profile.id, grade: profile.grade, dyslexiaAssist: profile.dyslexiaAssist, safety: profile.safety },
+        subject: testSubject,
+        message: testMessage,
+        subjectNote: subjectNote(profile.prompts, testSubject),
+        kind: "test",
       });
+      const blocked = await readFlagged(r);
+      if (blocked) {
+        await logFlags(profile.id, testSubject, [blocked.flag]);
+        return alert(blocked.message);
+      }
+      const limited = await limitMessage(r);
+      if (limited) return alert(limited);
       if (!r.ok) throw new Error("proxy");
-      const json = await r.json();
-      const text = json.text ?? "";
-      setResponse(text);
-      setShowAnswers(true); // default to showing answers when present
-
-      const id = await saveSession({
-        profileId: profile.id, subject, prompt: message, response: text, confusingWords: [], wins: [],
+      const body = await r.json();
+      await logFlags(profile.id, testSubject, flagsOf(body));
+      const parsed = PracticeTestSchema.safeParse(body.test);
+      if (!parsed.success) throw new Error("bad_test");
+      const test = parsed.data;
+      const skills = classifySkills([testMessage, test.title, ...test.questions.map(q => q.prompt)].join("\n"), profile.grade, testSubject, 3);
+      const sessionId = await saveSession({
+        profileId: profile.id, subject: testSubject, prompt: testMessage, response: testToText(test), test, confusingWords: [], wins: [], skills,
       });
-      setLastSessionId(id); setLastConfusing([]); setLastWins([]);
+      setPractice({ sessionId, profileId: profile.id, subject: testSubject, test, result: null });
     } catch {
-      setResponse("Couldn’t reach the tutor proxy.");
+      alert("Couldn’t make a practice test right now. Please try again.");
     } finally { setLoading(false); }
   }
+  async function onTestGraded(result: TestResult) {
+    if (!practice) return;
+    setPractice({ ...practice, result });
+    await saveTestResult(practice.sessionId, result);
+    if (activeAssignment?.subject === practice.subject) keepAssignment(await recordTest(activeAssignment.id, practice.sessionId, result));
+    // Each question counts toward its own skill; questions too short to tell count toward the test's
+    const testSkills = classifySkills([practice.test.title, ...practice.test.questions.map(q => q.prompt)].join("\n"), profile.grade, practice.subject, 3);
+    await recordAttempts(profile.id, result.results.flatMap(r => {
+      const q = practice.test.questions.find(q => q.id === r.id);
+      const own = q ? classifySkills(q.prompt, profile.grade, practice.subject, 1) : [];
+      return (own.length ? own : testSkills).map(skill => ({ skill, correct: r.correct }));
+    }));
+  }
+  // From the dashboard: a practice test on one skill
+  async function practiceSkill(skill: Skill) {
+    const topic = { subject: skill.domain, message: `Practice: ${skill.name} (${skill.code})` };
+    setSubject(topic.subject); setMessage(topic.message); setView("chat"); setActiveAssignmentId(null);
+    await generateTest(topic);
+  }
+  // From the To do list: the assignment's subject and question, ready to ask
+  async function startHomework(a: Assignment) {
+    if ((SUBJECTS as readonly string[]).includes(a.subject)) setSubject(a.subject as Subject);
+    setMessage(a.prompt); setActiveAssignmentId(a.id);
+    keepAssignment(await startAssignment(a.id));
+  }
 
-  const ask = () => callTutor({ subject, message });
-
-  const askWith = (mode: "simplify" | "steps" | "hint" | "test") =>
-    callTutor({
-      subject,
-      message:
-        mode === "simplify"
-          ? message + "\n\nPlease simplify the explanation even more."
-          : mode === "steps"
-          ? message + "\n\nShow numbered steps with one action per line."
-          : mode === "hint"
-          ? message + "\n\nGive me one helpful hint, not the full answer."
-          : buildTestPrompt(message, profile.grade, subject, profile.dyslexiaAssist),
-    });
+  // Follow-ups ride on the thread history, so they only need the instruction itself.
+  // The buttons are the profile's quick actions (parent-edited templates, see prompts.ts).
+  const askWith = (action: QuickAction) =>
+    callTutor({ subject, message: fillTemplate(action.template, { grade: profile.grade, subject, message }) });
+  const hintAction = profile.prompts.actions.find(a => a.id === HINT_ACTION.id) ?? HINT_ACTION;
 
-  async function showRecent() { setRecent(await loadRecent(profile.id, 5)); }
+  async function newTopic() {
+    await resetThread(profile.id, subject);
+    setThread(emptyThread(profile.id, subject));
+    setResponse(""); setLastSessionId(null);
+  }
+
+  // Sessions sync in the background; refresh the history view when the cloud brought changes
+  const refreshHistory = useCallback(() => setHistoryVersion(v => v + 1), []);
+  const cloud = useSessionSync(profile.id, householdId, refreshHistory);
   async function onClear() {
-    const pin = prompt("Parent PIN to clear history:"); if (pin !== parentPin) return alert("Incorrect PIN.");
-    await clearHistory(profile.id); setRecent([]);
+    if (!(await requireParentPin())) return;
+    await clearHistory(profile.id); await clearMastery(profile.id); refreshHistory();
+    setThread(emptyThread(profile.id, subject)); setResponse("");
   }
-  async function onImportSelected(file?: File) {
-    if (!file) return; await importSessions(profile.id, file); setRecent(await loadRecent(profile.id, 5));
-    if (fileInputRef.current) fileInputRef.current.value = "";
+  function onRestored(plan: RestorePlan) {
+    setProfiles(plan.profiles);
+    if (plan.currentProfileId) setCurrentProfileId(plan.currentProfileId);
+    refreshHistory();
   }
-  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Notes handlers
   async function addConfusingWord() {
@@ -345,45 +384,82 @@ export default function App() {
     setLastWins(next); setWinInput("");
     await updateSessionNotes(lastSessionId, { wins: next });
   }
+  // Answers to the check question, checked locally (AnswerCheck)
+  async function onChecked(correct: boolean, note: string) {
+    if (!lastSessionId) return;
+    const list = correct ? lastWins : lastMisses;
+    if (list.includes(note)) return;
+    const next = [...list, note];
+    if (correct) { setLastWins(next); await updateSessionNotes(lastSessionId, { wins: next }); }
+    else { setLastMisses(next); await updateSessionNotes(lastSessionId, { misses: next }); }
+    await recordAttempts(profile.id, lastSkills.map(skill => ({ skill, correct })));
+  }
 
   // ---------- Profiles UI toggle ----------
-  type View = "chat" | "profiles";
+  type View = "chat" | "profiles" | "review" | "dashboard" | "history" | "writing";
   const [view, setView] = useState<View>("chat");
-  const emptyDraft: Profile = { id: "", name: "", grade: "3", dyslexiaAssist: false };
+  // The parent may have set homework on the dashboard, so the list reloads on the way back
+  useEffect(() => {
+    if (view !== "chat") return;
+    let cancelled = false;
+    loadAssignments(profile.id).then(rows => { if (!cancelled) setAssignmentList(rows); });
+    return () => { cancelled = true; };
+  }, [profile.id, view]);
+  const emptyDraft: Profile = newProfile({ id: "" });
   const [draft, setDraft] = useState<Profile>(emptyDraft);
   const [editingId, setEditingId] = useState<string | null>(null);
 
-  function startAdd() {
-    const pin = prompt("Parent PIN:"); if (pin !== parentPin) { alert("Incorrect PIN."); return; }
-    setEditingId(null); setDraft({ ...emptyDraft, id: crypto.randomUUID() });
+  async function startAdd() {
+    if (!(await requireParentPin())) return;
+    setEditingId(null); setDraft(newProfile({ prefs: profile.prefs }));
   }
-  function startEdit(p: Profile) {
-    const pin = prompt("Parent PIN:"); if (pin !== parentPin) { alert("Incorrect PIN."); return; }
+  async function startEdit(p: Profile) {
+    if (!(await requireParentPin())) return;
     setEditingId(p.id); setDraft({ ...p });
   }
+  async function openDashboard() {
+    if (!(await requireParentPin())) return;
+    setView("dashboard");
+  }
   function cancelEdit() { setEditingId(null); setDraft(emptyDraft); }
   function saveDraft() {
     if (!draft.name.trim()) return alert("Please enter a name.");
     if (!GRADES.includes(draft.grade)) return alert("Choose a grade.");
+    const problems = checkPrompts(draft.prompts);
+    if (problems.length) return alert(problems.join("\n"));
+    const prompts = normalizePrompts(draft.prompts);
     if (editingId) {
-      setProfiles(prev => prev.map(p => p.id === editingId ? { ...draft } : p));
-      if (currentProfileId === editingId) setProfile({ ...draft });
+      updateProfile(editingId, { name: draft.name, grade: draft.grade, dyslexiaAssist: draft.dyslexiaAssist, safety: draft.safety, prompts });
     } else {
-      setProfiles(prev => [...prev, { ...draft }]);
+      setProfiles(prev => [...prev, { ...draft, prompts, updatedAt: Date.now() }]);
       if (profiles.length === 0) setCurrentProfileId(draft.id);
     }
     cancelEdit();
   }
-  function removeProfile(id: string) {
-    const pin = prompt("Parent PIN:"); if (pin !== parentPin) { alert("Incorrect PIN."); return; }
+  async function removeProfile(id: string) {
+    if (!(await requireParentPin())) return;
     if (!confirm("Delete this profile?")) return;
+    addTombstones([{ id, deletedAt: Date.now() }]);
     setProfiles(prev => prev.filter(p => p.id !== id));
     if (currentProfileId === id) {
       const remaining = profiles.filter(p => p.id !== id);
-      const next = remaining[0] ?? DEFAULT_PROFILES[0];
+      const next = remaining[0] ?? defaultProfiles()[0];
       setCurrentProfileId(next.id);
     }
   }
+  // From the history view: a saved practice test, to take again (works offline)
+  function retake(sessionId: string, prevSubject: string, test: PracticeTest) {
+    const s = (SUBJECTS as readonly string[]).includes(prevSubject) ? (prevSubject as Subject) : subject;
+    setSubject(s);
+    setPractice({ sessionId, profileId: profile.id, subject: s, test, result: null });
+    setView("chat");
+  }
+  // From the history view: put the old question back in the box, ready to ask again
+  function reask(prevSubject: string, prompt: string) {
+    if ((SUBJECTS as readonly string[]).includes(prevSubject)) setSubject(prevSubject as Subject);
+    setMessage(prompt);
+    setView("chat");
+  }
   function selectProfile(id: string) {
     setCurrentProfileId(id);
     const found = profiles.find(p => p.id === id);
@@ -400,45 +476,68 @@ export default function App() {
         <button className="btn btn-outline" onClick={() => setView(view === "chat" ? "profiles" : "chat")}>
           {view === "chat" ? "Profiles" : "Back to Tutor"}
         </button>
+        {view !== "history" && (
+          <button className="btn btn-outline" onClick={() => setView("history")}>History</button>
+        )}
+        {view !== "review" && (
+          <button className="btn btn-outline" onClick={() => setView("review")}>Review words</button>
+        )}
+        {view !== "writing" && (
+          <button className="btn btn-outline" onClick={() => setView("writing")}>Writing coach</button>
+        )}
+        {view !== "dashboard" && (
+          <button className="btn btn-outline" onClick={openDashboard}>Parent dashboard</button>
+        )}
         <button onClick={testSupabase} className="btn btn-outline">Test Supabase</button>
         <div className="ml-auto flex items-center gap-2 text-sm">
           <span>Theme:</span>
           {(["light","dark","high-contrast"] as Theme[]).map(t => (
-            <button key={t} onClick={() => setTheme(t)}
+            <button key={t} onClick={() => setPref({ theme: t })}
               className={`btn btn-outline rounded-full ${theme===t ? "bg-sky-500 text-white" : ""}`}
               aria-pressed={theme===t}>{t}</button>
           ))}
         </div>
       </header>
 
-      {/* Global settings */}
+      {/* Settings (font and line spacing are saved on the active profile) */}
       <section className="card mb-3">
         <div className="flex items-center gap-3 flex-wrap">
           <label className="flex items-center gap-2">
             <span>Font</span>
-            <select value={fontSize} onChange={e=>setFontSize(e.target.value as FontSize)} className="border rounded px-2 py-1">
+            <select value={fontSize} onChange={e=>setPref({ fontSize: e.target.value as FontSize })} className="border rounded px-2 py-1">
               <option value="sm">Small</option><option value="md">Default</option>
               <option value="lg">Large</option><option value="xl">XL</option>
             </select>
           </label>
           <label className="flex items-center gap-2">
             <span>Line</span>
-            <select value={lineSpacing} onChange={e=>setLineSpacing(Number(e.target.value) as LineSpacing)} className="border rounded px-2 py-1">
+            <select value={lineSpacing} onChange={e=>setPref({ lineSpacing: Number(e.target.value) as LineSpacing })} className="border rounded px-2 py-1">
               <option value={1.6}>1.6</option><option value={1.8}>1.8</option><option value={2.0}>2.0</option>
             </select>
           </label>
-          <div className="flex items-center gap-2 text-sm">
-            <label className="flex items-center gap-2">
-              <span>Parent PIN</span>
-              <input type="password" value={parentPin} onChange={e=>setParentPin(e.target.value.trim())}
-                className="border rounded px-2 py-1 w-24" inputMode="numeric" />
-            </label>
-          </div>
+          <VoiceSettings voice={profile.prefs.voice} onChange={voice => setPref({ voice })} />
+          <label className="flex items-center gap-2">
+            <span>Ask by</span>
+            <select value={profile.prefs.input} onChange={e=>setPref({ input: e.target.value as InputMode })} className="border rounded px-2 py-1">
+              <option value="keyboard">Typing</option><option value="voice">Talking</option>
+            </select>
+          </label>
+          <ParentSettings />
         </div>
       </section>
 
+      <OfflineBanner online={online} queued={outbox.queued} sending={outbox.sending} onRemove={removeQueued} />
+
       {/* Profiles screen */}
-      {view === "profiles" ? (
+      {view === "dashboard" ? (
+        <ParentDashboard profile={profile} profiles={profiles} onPractice={practiceSkill} />
+      ) : view === "history" ? (
+        <HistoryBrowser profile={profile} lineSpacing={lineSpacing} version={historyVersion} onReask={reask} onRetake={retake} />
+      ) : view === "review" ? (
+        <ReviewDeck profile={profile} lineSpacing={lineSpacing} />
+      ) : view === "writing" ? (
+        <WritingCoach profile={profile} lineSpacing={lineSpacing} />
+      ) : view === "profiles" ? (
         <section className="card">
           <div className="mb-3 flex items-center justify-between">
             <div className="text-lg font-semibold">Profiles</div>
@@ -484,7 +583,15 @@ export default function App() {
                     onChange={e=>setDraft({ ...draft, dyslexiaAssist: e.target.checked })}/>
                   <span>Dyslexia Assist</span>
                 </label>
+                <label className="flex items-center gap-2">
+                  <span>Content filter</span>
+                  <select className="border rounded px-2 py-1" value={draft.safety}
+                    onChange={e=>setDraft({ ...draft, safety: e.target.value as Strictness })}>
+                    {STRICTNESS.map(level => <option key={level} value={level}>{STRICTNESS_LABELS[level]}</option>)}
+                  </select>
+                </label>
               </div>
+              <PromptEditor value={draft.prompts} grade={draft.grade} onChange={prompts => setDraft({ ...draft, prompts })} />
               <div className="mt-3 flex gap-2">
                 <button className="btn btn-primary" onClick={saveDraft}>{editingId ? "Save" : "Create"}</button>
                 <button className="btn btn-outline" onClick={cancelEdit}>Cancel</button>
@@ -504,11 +611,7 @@ export default function App() {
                 <input
                   type="checkbox"
                   checked={profile.dyslexiaAssist}
-                  onChange={(e) => {
-                    const updated = { ...profile, dyslexiaAssist: e.target.checked };
-                    setProfile(updated);
-                    setProfiles(prev => prev.map(p => p.id === profile.id ? updated : p));
-                  }}
+                  onChange={(e) => updateProfile(profile.id, { dyslexiaAssist: e.target.checked })}
                 />
                 <span>Dyslexia Assist</span>
               </label>
@@ -517,11 +620,7 @@ export default function App() {
                 <select
                   className="border rounded px-2 py-1"
                   value={profile.grade}
-                  onChange={(e) => {
-                    const updated = { ...profile, grade: e.target.value as GradeLevel };
-                    setProfile(updated);
-                    setProfiles(prev => prev.map(p => p.id === profile.id ? updated : p));
-                  }}
+                  onChange={(e) => updateProfile(profile.id, { grade: e.target.value as GradeLevel })}
                 >
                   {GRADES.map(g => <option key={g} value={g}>{g}</option>)}
                 </select>
@@ -529,6 +628,8 @@ export default function App() {
             </div>
           </section>
 
+          <TodoList assignments={assignmentList} activeId={activeAssignment?.id ?? null} onStart={startHomework} />
+
           {/* Subject + prompt card */}
           <section className="card mb-3">
             <div className="flex gap-2 mb-3 flex-wrap">
@@ -540,84 +641,101 @@ export default function App() {
               ))}
             </div>
 
+            <ImageAttach images={attachments} onChange={setAttachments} disabled={loading} />
+            <DictationButton preferred={profile.prefs.input === "voice"}
+              onText={text => setMessage(m => (m.trim() ? `${m.trimEnd()} ${text}` : text))} />
             <textarea
               className="w-full border rounded p-3"
               rows={3}
               style={{ lineHeight: lineSpacing }}
               value={message}
               onChange={e=>setMessage(e.target.value)}
-              placeholder="Tell me what you’re working on…"
+              placeholder={profile.prefs.input === "voice" ? "Hold the button and tell me what you’re working on…" : "Tell me what you’re working on…"}
             />
+            {subject === "writing" && (
+              <p className="text-sm mt-1 opacity-80">
+                Working on a longer piece? <button className="underline" onClick={() => setView("writing")}>Open the writing coach</button> for feedback on your whole draft.
+              </p>
+            )}
 
             <div className="mt-3 flex flex-wrap gap-2">
               <button onClick={ask} disabled={loading}
                 className={`btn btn-primary ${loading ? "opacity-70 cursor-not-allowed" : ""}`}>
-                {loading ? "Thinking..." : "Ask"}
+                {loading ? "Thinking..." : online ? "Ask" : "Save for later"}
               </button>
-              <button onClick={() => askWith("simplify")} disabled={loading}
-                className={`btn btn-outline ${loading ? "opacity-50 cursor-not-allowed" : ""}`}>Simplify</button>
-              <button onClick={() => askWith("steps")} disabled={loading}
-                className={`btn btn-outline ${loading ? "opacity-50 cursor-not-allowed" : ""}`}>Show steps</button>
-              <button onClick={() => askWith("hint")} disabled={loading}
-                className={`btn btn-outline ${loading ? "opacity-50 cursor-not-allowed" : ""}`}>Hint</button>
-              <button onClick={() => askWith("test")} disabled={loading}
+              {profile.prompts.actions.map(a => (
+                <button key={a.id} onClick={() => askWith(a)} disabled={loading}
+                  className={`btn btn-outline ${loading ? "opacity-50 cursor-not-allowed" : ""}`}>{a.label}</button>
+              ))}
+              <button onClick={() => generateTest()} disabled={loading}
                 className={`btn btn-outline ${loading ? "opacity-50 cursor-not-allowed" : ""}`}>Generate Test</button>
+              {loading && <button onClick={stopTutor} className="btn btn-outline">Stop</button>}
 
-              {response && (
-                <>
-                  <button onClick={()=>speak(response)} className="btn btn-outline">Read Aloud</button>
-                  <button onClick={()=>copy(response)}  className="btn btn-outline">Copy</button>
-                </>
+              {response && <button onClick={()=>copy(response)} className="btn btn-outline">Copy</button>}
+              {thread && thread.turns.length > 0 && (
+                <button onClick={newTopic} disabled={loading} className="btn btn-outline">New topic</button>
               )}
             </div>
           </section>
 
-          {/* Answer card (split Questions vs Answer Key) */}
+          {/* Conversation so far (the latest reply is in the answer card below) */}
+          {thread && thread.turns.length > 2 && (
+            <section className="card mb-3">
+              <div className="font-medium mb-2">Conversation so far</div>
+              <div className="space-y-2 text-sm">
+                {thread.turns.slice(0, -2).map((t, i) => (
+                  <div key={i} className={`p-3 rounded border ${t.role === "user" ? "opacity-80" : ""}`}>
+                    <div className="font-medium">{t.role === "user" ? "You" : "Tutor"}</div>
+                    {t.role === "user" ? (
+                      <div className="whitespace-pre-wrap">{t.content}</div>
+                    ) : (
+                      <div
+                        className={`${profile.dyslexiaAssist ? "dyslexia-on" : ""} answer-body`}
+                        style={{ lineHeight: lineSpacing }}
+                        dangerouslySetInnerHTML={{ __html: renderMarkdown(t.content) }}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Answer card */}
           {response && (
             <section className="card mb-3 p-4">
-              {(() => {
-                const split = response.split(/^\s*#{0,3}\s*Answer Key\s*:?\s*$/im);
-                const hasKey = split.length > 1;
-                const qText  = split[0];
-                const aText  = hasKey ? split.slice(1).join("\n").trim() : "";
-
-                return (
-                  <>
-                    {/* Questions */}
-                    <div
-                      className={`${profile.dyslexiaAssist ? "dyslexia-on" : ""} answer-body`}
-                      style={{ lineHeight: lineSpacing }}
-                      dangerouslySetInnerHTML={{
-                        __html: DOMPurify.sanitize(marked.parse(normalizeMath(qText)) as string),
-                      }}
-                    />
-
-                    {/* Answer Key */}
-                    {hasKey && (
-                      <div className="mt-4">
-                        <div className="flex items-center justify-between">
-                          <h3 className="text-lg font-semibold">Answer Key</h3>
-                          <button className="btn btn-outline" onClick={() => setShowAnswers(v => !v)}>
-                            {showAnswers ? "Hide answers" : "Show answers"}
-                          </button>
-                        </div>
-                        {showAnswers && (
-                          <div
-                            className={`${profile.dyslexiaAssist ? "dyslexia-on" : ""} answer-body mt-2`}
-                            style={{ lineHeight: lineSpacing }}
-                            dangerouslySetInnerHTML={{
-                              __html: DOMPurify.sanitize(marked.parse(normalizeMath(aText)) as string),
-                            }}
-                          />
-                        )}
-                      </div>
-                    )}
-                  </>
-                );
-              })()}
+              {!loading && (
+                <ReadingBadge score={readability(response)} grade={profile.grade} rewritten={rewritten} />
+              )}
+              <ReadAloud
+                markdown={response}
+                voice={profile.prefs.voice}
+                className={`${profile.dyslexiaAssist ? "dyslexia-on" : ""} answer-body`}
+                style={{ lineHeight: lineSpacing }}
+              />
             </section>
           )}
 
+          {/* Check question answer box */}
+          {response && lastSessionId && !loading && (
+            <AnswerCheck key={lastSessionId} response={response} onResult={onChecked}
+              onHint={() => askWith(hintAction)} disabled={loading} />
+          )}
+
+          {/* Practice test */}
+          {practice && (
+            <PracticeTestCard
+              key={practice.sessionId}
+              test={practice.test}
+              result={practice.result}
+              dyslexiaAssist={profile.dyslexiaAssist}
+              lineSpacing={lineSpacing}
+              onGraded={onTestGraded}
+              onRetry={() => setPractice({ ...practice, result: null })}
+              onClose={() => setPractice(null)}
+            />
+          )}
+
           {/* Notes card */}
           {lastSessionId && (
             <section className="card mb-3">
@@ -635,10 +753,11 @@ export default function App() {
                 </div>
               </div>
 
-              {(lastConfusing.length > 0 || lastWins.length > 0) && (
+              {(lastConfusing.length > 0 || lastWins.length > 0 || lastMisses.length > 0) && (
                 <div className="mt-2 text-sm">
                   {lastConfusing.length > 0 && (<div className="mb-1"><span className="font-medium">Tricky words:</span> {lastConfusing.join(", ")}</div>)}
-                  {lastWins.length > 0 && (<div><span className="font-medium">Wins:</span> {lastWins.join(", ")}</div>)}
+                  {lastWins.length > 0 && (<div className="mb-1"><span className="font-medium">Wins:</span> {lastWins.join(", ")}</div>)}
+                  {lastMisses.length > 0 && (<div><span className="font-medium">Missed checks:</span> {lastMisses.join(", ")}</div>)}
                 </div>
               )}
             </section>
@@ -647,36 +766,18 @@ export default function App() {
           {/* History + Import/Export + Cloud */}
           <section className="card">
             <div className="flex flex-wrap gap-2">
-              <button onClick={showRecent} className="btn btn-outline">View last 5</button>
+              <button onClick={() => setView("history")} className="btn btn-outline">Browse history</button>
               <button onClick={onClear}    className="btn btn-outline">Clear history</button>
-              <button onClick={()=>exportSessions(profile.id)} className="btn btn-outline">Export JSON</button>
-              <button onClick={()=>syncToCloud(profile.id)}     className="btn btn-outline">Sync to cloud</button>
-              <button
-                onClick={async()=>{ const { pulled, recent } = await pullFromCloud(profile.id); if (recent.length) setRecent(recent); if (pulled>0) alert(`Pulled ${pulled} rows from cloud ✅`); }}
-                className="btn btn-outline"
-              >
-                Pull from cloud
-              </button>
-
-              <input ref={fileInputRef} id="importFile" type="file" accept="application/json" className="hidden"
-                onChange={async e => { const f = e.target.files?.[0]; await onImportSelected(f); }} />
-              <button onClick={()=>fileInputRef.current?.click()} className="btn btn-outline">Import JSON</button>
+              <BackupPanel profile={profile} profiles={profiles} currentProfileId={currentProfileId} onRestored={onRestored} />
+              <span className="ml-auto self-center text-sm opacity-80" aria-live="polite">
+                {cloud.status === "signed-out" ? "Cloud sync: sign in with the parent account"
+                  : cloud.status === "offline" ? "Cloud sync: offline, will sync when back online"
+                  : cloud.status === "syncing" ? "Cloud sync: syncing…"
+                  : cloud.status === "error" ? "Cloud sync: couldn’t reach the cloud, will retry"
+                  : `Cloud sync: up to date${cloud.lastSyncedAt ? ` (${new Date(cloud.lastSyncedAt).toLocaleTimeString()})` : ""}`}
+              </span>
             </div>
 
-            {recent.length > 0 && (
-              <div className="mt-3 space-y-2 text-sm">
-                {recent.map(r => (
-                  <div key={r.id} className="p-3 rounded border">
-                    <div className="opacity-70">{new Date(r.createdAt).toLocaleString()}</div>
-                    <div className="font-medium">Subject: {r.subject}</div>
-                    <div className="mt-1">Q: {r.prompt}</div>
-                    {r.confusingWords?.length ? <div className="mt-1">Tricky: {r.confusingWords.join(", ")}</div> : null}
-                    {r.wins?.length ? <div className="mt-1">Wins: {r.wins.join(", ")}</div> : null}
-                    <div className="mt-1 whitespace-pre-wrap">A: {r.response}</div>
-                  </div>
-                ))}
-              </div>
-            )}
           </section>
         </>
       )}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { fmtMinutes, SUBJECTS } from "./stats";
+import {
+  createAssignment, deleteAssignment, dueLabel, loadAssignments, progressLabel, targetLabel, type Assignment, type AssignmentTarget,
+} from "./assignments";
+
+// "2026-10-21" from a date input -> the end of that day, local time
+const endOfDay = (value: string) => new Date(`${value}T23:59:59`).getTime();
+
+// Parent side of the homework queue: set assignments for one child and see how they went
+export default function AssignmentsPanel(props: { profile: { id: string; name: string } }) {
+  const { profile } = props;
+  const [list, setList] = useState<Assignment[]>([]);
+  const [subject, setSubject] = useState<string>("math");
+  const [prompt, setPrompt] = useState("");
+  const [due, setDue] = useState("");
+  const [kind, setKind] = useState<AssignmentTarget["kind"]>("questions");
+  const [count, setCount] = useState(5);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAssignments(profile.id).then(rows => { if (!cancelled) setList(rows); });
+    return () => { cancelled = true; };
+  }, [profile.id]);
+
+  async function add() {
+    if (!prompt.trim()) return;
+    await createAssignment({
+      profileId: profile.id, subject, prompt: prompt.trim(),
+      dueAt: due ? endOfDay(due) : undefined,
+      target: kind === "test" ? { kind } : { kind, count },
+    });
+    setList(await loadAssignments(profile.id));
+    setPrompt(""); setDue("");
+  }
+  async function remove(a: Assignment) {
+    if (!confirm(`Remove "${a.prompt}"?`)) return;
+    await deleteAssignment(a.id);
+    setList(rows => rows.filter(r => r.id !== a.id));
+  }
+
+  return (
+    <div className="mt-4">
+      <div className="font-medium mb-1">Homework for {profile.name}</div>
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+        <select className="border rounded px-2 py-1" value={subject} onChange={e => setSubject(e.target.value)} aria-label="Subject">
+          {SUBJECTS.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <input className="flex-1 min-w-48 border rounded px-2 py-1" value={prompt} maxLength={400}
+          onChange={e => setPrompt(e.target.value)} placeholder="Topic or question, e.g. Adding fractions with unlike denominators" aria-label="Topic" />
+        <label className="flex items-center gap-1">
+          <span>Due</span>
+          <input type="date" className="border rounded px-2 py-1" value={due} onChange={e => setDue(e.target.value)} />
+        </label>
+        <select className="border rounded px-2 py-1" value={kind} onChange={e => setKind(e.target.value as AssignmentTarget["kind"])} aria-label="Target">
+          <option value="questions">Ask questions</option>
+          <option value="test">Take a practice test</option>
+        </select>
+        {kind === "questions" && (
+          <input type="number" className="w-16 border rounded px-2 py-1" min={1} max={50} value={count}
+            onChange={e => setCount(Math.min(50, Math.max(1, Number(e.target.value) || 1)))} aria-label="Number of questions" />
+        )}
+        <button className="btn btn-outline" onClick={add} disabled={!prompt.trim()}>Assign</button>
+      </div>
+      {list.length === 0 ? (
+        <div className="text-sm opacity-70">No homework set.</div>
+      ) : (
+        <ul className="text-sm space-y-1">
+          {list.map(a => (
+            <li key={a.id} className="flex flex-wrap items-center gap-2">
+              <span className="opacity-70">{a.subject}</span>
+              <span className="font-medium">{a.prompt}</span>
+              <span className="opacity-80">
+                ({targetLabel(a.target)}
+                {a.completedAt ? `, done ${new Date(a.completedAt).toLocaleDateString()}` : a.dueAt ? `, ${dueLabel(a)}` : ""})
+              </span>
+              <span className="opacity-80">{progressLabel(a)} • {fmtMinutes(a.timeMs / 60000)}</span>
+              <button className="btn btn-outline ml-auto" onClick={() => remove(a)}>Remove</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useRef, useState } from "react";
+import { requireParentPin } from "./parentPin";
+import type { Profile } from "./profiles";
+import { applyRestore, exportBackup, exportSessions, readBackup, type RestorePlan } from "./backup";
+
+// Export buttons + restore-with-preview, shown in the history card
+export default function BackupPanel(props: {
+  profile: Profile;
+  profiles: Profile[];
+  currentProfileId: string;
+  onRestored: (plan: RestorePlan) => void;
+}) {
+  const { profile, profiles, currentProfileId } = props;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function onFileSelected(file?: File) {
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (!file) return;
+    setBusy(true);
+    const result = await readBackup(file, profiles, currentProfileId);
+    setBusy(false);
+    if (!result.ok) return alert(`Couldn’t read the backup: ${result.error}`);
+    setPlan(result.plan);
+  }
+  async function startRestore() {
+    if (!(await requireParentPin())) return;
+    fileInputRef.current?.click();
+  }
+  async function confirmRestore() {
+    if (!plan) return;
+    setBusy(true);
+    try {
+      await applyRestore(plan);
+      props.onRestored(plan);
+      setPlan(null);
+    } catch (e) {
+      alert(`Restore failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally { setBusy(false); }
+  }
+
+  const p = plan?.profileChanges;
+  const s = plan?.sessionChanges;
+  const nothingToDo = plan && p!.added + p!.updated === 0 && plan.sessions.length === 0;
+
+  return (
+    <>
+      <button onClick={() => exportSessions(profile, "json")} className="btn btn-outline">Export JSON</button>
+      <button onClick={() => exportSessions(profile, "csv")} className="btn btn-outline">Export CSV</button>
+      <button onClick={() => exportSessions(profile, "md")} className="btn btn-outline">Export Markdown</button>
+      <button onClick={() => exportBackup(profiles, currentProfileId)} className="btn btn-outline">Back up everything</button>
+      <input ref={fileInputRef} type="file" accept="application/json" className="hidden"
+        onChange={e => onFileSelected(e.target.files?.[0])} />
+      <button onClick={startRestore} disabled={busy} className="btn btn-outline">Restore backup</button>
+
+      {plan && (
+        <div className="basis-full mt-2 p-3 rounded-xl border text-sm" role="dialog" aria-label="Restore preview">
+          <div className="font-medium mb-1">Restore preview (nothing has changed yet)</div>
+          <ul className="list-disc ml-5">
+            <li>Profiles: {p!.added} new, {p!.updated} updated</li>
+            <li>Sessions: {s!.added} new, {s!.merged} merged with what’s here, {s!.unchanged} already up to date</li>
+            {s!.duplicates > 0 && <li>{s!.duplicates} duplicate session(s) will be skipped</li>}
+            {s!.invalid > 0 && <li>{s!.invalid} unreadable session(s) will be skipped</li>}
+          </ul>
+          <div className="mt-2 flex gap-2">
+            <button className="btn btn-primary" onClick={confirmRestore} disabled={busy || !!nothingToDo}>
+              {nothingToDo ? "Nothing to restore" : "Restore"}
+            </button>
+            <button className="btn btn-outline" onClick={() => setPlan(null)} disabled={busy}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+import { dictationSupported, useDictation } from "./dictation";
+
+// Hold-to-talk button with the live transcript. Finished phrases go to onText (into the
+// question box, where they can be edited before "Ask"). `preferred` = the profile asks by voice.
+export default function DictationButton(props: { onText: (text: string) => void; preferred: boolean }) {
+  const { listening, interim, error, start, stop } = useDictation(props.onText);
+
+  if (!dictationSupported()) {
+    return props.preferred
+      ? <p className="text-sm opacity-80 mb-2">Voice typing doesn't work in this browser, so type your question below.</p>
+      : null;
+  }
+
+  return (
+    <div className="mb-2">
+      <button
+        type="button"
+        className={`btn ${props.preferred ? "btn-primary text-lg px-6 py-3" : "btn-outline"} select-none touch-none`}
+        aria-pressed={listening}
+        onPointerDown={e => { e.preventDefault(); start(); }}
+        onPointerUp={stop}
+        onPointerLeave={stop}
+        onPointerCancel={stop}
+        onKeyDown={e => { if ((e.key === " " || e.key === "Enter") && !e.repeat) { e.preventDefault(); start(); } }}
+        onKeyUp={e => { if (e.key === " " || e.key === "Enter") stop(); }}
+      >
+        {listening ? "🎙️ Listening… let go when done" : "🎤 Hold to talk"}
+      </button>
+      <div className="text-sm mt-1 min-h-[1.25rem]" aria-live="polite">
+        {error ? <span className="font-medium">{error}</span> : listening && <span className="opacity-70">{interim || "Go ahead, I'm listening."}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useMemo, useState } from "react";
+import type { PageCursor } from "./db";
+import type { PracticeTest } from "./practiceTest";
+import ReadAloud from "./ReadAloud";
+import SessionPhotos from "./SessionPhotos";
+import type { VoicePrefs } from "./speech";
+import { SUBJECTS } from "./stats";
+import { searchSessions, updateSessionNotes, type SessionFilter, type SessionNotes, type SessionRecord } from "./sessions";
+
+const PAGE_SIZE = 20;
+const DAY = 24 * 60 * 60 * 1000;
+
+// <input type="date"> value -> local midnight (ms), or undefined when empty
+const dayStart = (value: string) => (value ? new Date(`${value}T00:00`).getTime() : undefined);
+
+function snippet(text: string, max = 120) {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max)}…` : flat;
+}
+
+// Tricky words, wins or missed checks on one session, with add / remove
+function NotesEditor(props: { label: string; items: string[]; placeholder: string; onChange: (next: string[]) => void }) {
+  const [input, setInput] = useState("");
+  function add() {
+    if (!input.trim()) return;
+    props.onChange([...props.items, input.trim()]); setInput("");
+  }
+  return (
+    <div className="text-sm">
+      <span className="font-medium">{props.label}:</span>{" "}
+      {props.items.length === 0 && <span className="opacity-70">none</span>}
+      {props.items.map((item, i) => (
+        <span key={`${item}-${i}`} className="inline-flex items-center gap-1 mr-2">
+          {item}
+          <button className="opacity-70" aria-label={`Remove ${item}`}
+            onClick={() => props.onChange(props.items.filter((_, j) => j !== i))}>×</button>
+        </span>
+      ))}
+      <span className="inline-flex items-center gap-2 mt-1">
+        <input className="border rounded px-2 py-1" value={input} placeholder={props.placeholder}
+          onChange={e => setInput(e.target.value)} onKeyDown={e => { if (e.key === "Enter") add(); }} />
+        <button className="btn btn-outline" onClick={add}>Add</button>
+      </span>
+    </div>
+  );
+}
+
+// Every past session for a profile: search, filter, page through, re-read and re-ask
+export default function HistoryBrowser(props: {
+  profile: { id: string; dyslexiaAssist: boolean; prefs: { voice: VoicePrefs } };
+  lineSpacing: number;
+  version: number; // bumped by the parent when sessions change underneath us (sync, import, clear)
+  onReask: (subject: string, prompt: string) => void;
+  onRetake: (sessionId: string, subject: string, test: PracticeTest) => void;
+}) {
+  const { profile, lineSpacing, version } = props;
+  const [text, setText] = useState("");
+  const [subject, setSubject] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [rows, setRows] = useState<SessionRecord[]>([]);
+  const [next, setNext] = useState<PageCursor | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const filter = useMemo<SessionFilter>(() => {
+    const toDay = dayStart(to);
+    return { text, subject, from: dayStart(from), to: toDay === undefined ? undefined : toDay + DAY - 1 };
+  }, [text, subject, from, to]);
+
+  // First page again whenever the filters change (typing is debounced)
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      const page = await searchSessions(profile.id, filter, PAGE_SIZE);
+      if (cancelled) return;
+      setRows(page.rows); setNext(page.next); setLoading(false);
+    }, 250);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [profile.id, filter, version]);
+
+  async function loadMore() {
+    if (!next) return;
+    setLoading(true);
+    const page = await searchSessions(profile.id, filter, PAGE_SIZE, next);
+    setRows(prev => [...prev, ...page.rows]); setNext(page.next); setLoading(false);
+  }
+
+  async function editNotes(row: SessionRecord, notes: SessionNotes) {
+    await updateSessionNotes(row.id, notes);
+    setRows(prev => prev.map(r => r.id === row.id ? { ...r, ...notes } : r));
+  }
+
+  return (
+    <section className="card">
+      <div className="mb-3 text-lg font-semibold">History</div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <input className="border rounded px-2 py-1 flex-1 min-w-[12ch]" type="search" value={text}
+          onChange={e => setText(e.target.value)} placeholder="Search questions, answers, words, wins…" aria-label="Search history" />
+        <select className="border rounded px-2 py-1" value={subject} onChange={e => setSubject(e.target.value)} aria-label="Subject">
+          <option value="">All subjects</option>
+          {SUBJECTS.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-sm">
+          <span>From</span>
+          <input className="border rounded px-2 py-1" type="date" value={from} onChange={e => setFrom(e.target.value)} />
+        </label>
+        <label className="flex items-center gap-1 text-sm">
+          <span>To</span>
+          <input className="border rounded px-2 py-1" type="date" value={to} onChange={e => setTo(e.target.value)} />
+        </label>
+      </div>
+
+      {!loading && rows.length === 0 && <div className="opacity-70 text-sm">No sessions match.</div>}
+      <div className="space-y-2 text-sm">
+        {rows.map(r => {
+          const open = r.id === openId;
+          return (
+            <div key={r.id} className="p-3 rounded border">
+              <button className="w-full text-left" onClick={() => setOpenId(open ? null : r.id)} aria-expanded={open}>
+                <div className="opacity-70">{new Date(r.createdAt).toLocaleString()} • {r.subject}</div>
+                <div className="font-medium">{snippet(r.prompt)}</div>
+                {!open && <div className="opacity-80">{snippet(r.response)}</div>}
+              </button>
+              {open && (
+                <div className="mt-2 space-y-2">
+                  <SessionPhotos sessionId={r.id} />
+                  <ReadAloud
+                    markdown={r.response}
+                    voice={profile.prefs.voice}
+                    className={`${profile.dyslexiaAssist ? "dyslexia-on" : ""} answer-body`}
+                    style={{ lineHeight: lineSpacing }}
+                  />
+                  {r.testResult && <div>Test score: {r.testResult.score} / {r.testResult.total}</div>}
+                  <div className="flex flex-wrap gap-2">
+                    <button className="btn btn-outline" onClick={() => props.onReask(r.subject, r.prompt)}>Ask again</button>
+                    {r.test && <button className="btn btn-outline" onClick={() => props.onRetake(r.id, r.subject, r.test!)}>Redo test</button>}
+                  </div>
+                  <NotesEditor label="Tricky words" items={r.confusingWords ?? []} placeholder="Add a tricky word"
+                    onChange={next => editNotes(r, { confusingWords: next })} />
+                  <NotesEditor label="Wins" items={r.wins ?? []} placeholder="Add a win"
+                    onChange={next => editNotes(r, { wins: next })} />
+                  {(r.misses?.length ?? 0) > 0 && (
+                    <NotesEditor label="Missed checks" items={r.misses ?? []} placeholder="Add a miss"
+                      onChange={next => editNotes(r, { misses: next })} />
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {loading && <div className="opacity-70 text-sm mt-2">Loading…</div>}
+      {next && !loading && (
+        <button className="btn btn-outline mt-3" onClick={loadMore}>Show more</button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState, type ChangeEvent, type PointerEvent } from "react";
+import { dataUrl, FULL_CROP, MAX_IMAGES, prepareImage, type Crop, type TutorImage } from "./images";
+
+// Drag a box over the photo to keep just the problem; no box = the whole page
+function Cropper(props: { file: File; onDone: (crop: Crop) => void; onCancel: () => void; busy: boolean }) {
+  const [url, setUrl] = useState("");
+  const [crop, setCrop] = useState<Crop | null>(null);
+  const start = useRef<{ x: number; y: number } | null>(null);
+  const frame = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const u = URL.createObjectURL(props.file);
+    setUrl(u);
+    return () => URL.revokeObjectURL(u);
+  }, [props.file]);
+
+  const point = (e: PointerEvent) => {
+    const box = frame.current!.getBoundingClientRect();
+    const clamp = (n: number) => Math.min(1, Math.max(0, n));
+    return { x: clamp((e.clientX - box.left) / box.width), y: clamp((e.clientY - box.top) / box.height) };
+  };
+  function down(e: PointerEvent) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    start.current = point(e);
+    setCrop(null);
+  }
+  function move(e: PointerEvent) {
+    if (!start.current) return;
+    const p = point(e), s = start.current;
+    setCrop({ x: Math.min(s.x, p.x), y: Math.min(s.y, p.y), w: Math.abs(p.x - s.x), h: Math.abs(p.y - s.y) });
+  }
+  function up() {
+    start.current = null;
+    setCrop(c => (c && c.w > 0.02 && c.h > 0.02 ? c : null)); // a tap isn't a crop
+  }
+
+  return (
+    <div className="mt-2 border rounded p-2">
+      <p className="text-sm mb-2">Drag a box around the problem you want help with.</p>
+      <div ref={frame} className="relative inline-block select-none touch-none max-w-full"
+        onPointerDown={down} onPointerMove={move} onPointerUp={up}>
+        {url && <img src={url} alt="Your photo" className="block max-h-80 max-w-full" draggable={false} />}
+        {crop && (
+          <div className="absolute border-2 border-sky-500 bg-sky-500/10 pointer-events-none"
+            style={{ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.w * 100}%`, height: `${crop.h * 100}%` }} />
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2 mt-2">
+        <button className="btn btn-primary" disabled={props.busy} onClick={() => props.onDone(crop ?? FULL_CROP)}>
+          {props.busy ? "Getting it ready..." : crop ? "Use this part" : "Use whole photo"}
+        </button>
+        {crop && <button className="btn btn-outline" disabled={props.busy} onClick={() => setCrop(null)}>Clear box</button>}
+        <button className="btn btn-outline" disabled={props.busy} onClick={props.onCancel}>Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+// Camera or file picker, then crop; the prepared photos go with the next question
+export default function ImageAttach(props: { images: TutorImage[]; onChange: (images: TutorImage[]) => void; disabled?: boolean }) {
+  const { images, onChange } = props;
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const full = images.length >= MAX_IMAGES;
+
+  function pick(e: ChangeEvent<HTMLInputElement>) {
+    const chosen = e.target.files?.[0];
+    e.target.value = ""; // picking the same file again should still fire
+    if (chosen) { setFile(chosen); setError(null); }
+  }
+  async function use(crop: Crop) {
+    if (!file) return;
+    setBusy(true);
+    const result = await prepareImage(file, crop);
+    setBusy(false);
+    if (!result.ok) { setError(result.message); return; }
+    onChange([...images, result.image]);
+    setFile(null);
+  }
+
+  return (
+    <div className="mb-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className={`btn btn-outline ${full || props.disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}>
+          📷 Take photo
+          <input type="file" accept="image/*" capture="environment" className="sr-only" onChange={pick} disabled={full || props.disabled} />
+        </label>
+        <label className={`btn btn-outline ${full || props.disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}>
+          Choose picture
+          <input type="file" accept="image/*" className="sr-only" onChange={pick} disabled={full || props.disabled} />
+        </label>
+        {images.map((img, i) => (
+          <span key={i} className="relative inline-block">
+            <img src={dataUrl(img)} alt={`Attached photo ${i + 1}`} className="h-12 rounded border" />
+            <button className="absolute -top-2 -right-2 rounded-full bg-white border w-5 h-5 text-xs leading-none"
+              onClick={() => onChange(images.filter((_, j) => j !== i))} aria-label={`Remove photo ${i + 1}`}>×</button>
+          </span>
+        ))}
+        {full && <span className="text-sm opacity-70">{MAX_IMAGES} photos at most</span>}
+      </div>
+      {file && <Cropper file={file} busy={busy} onDone={use} onCancel={() => setFile(null)} />}
+      {error && <p className="mt-1 text-sm font-medium" aria-live="polite">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { QueuedQuestion } from "./outbox";
+
+// Offline notice and the questions waiting to be sent
+export default function OfflineBanner(props: {
+  online: boolean;
+  queued: QueuedQuestion[];
+  sending: boolean;
+  onRemove: (id: string) => void;
+}) {
+  const { online, queued, sending } = props;
+  if (online && queued.length === 0) return null;
+  return (
+    <section className="card mb-3" role="status" aria-live="polite">
+      {!online && (
+        <p className="font-medium">
+          You’re offline. You can still browse history, review tricky words and redo saved practice tests.
+          Questions you ask now are saved and sent when you’re back online.
+        </p>
+      )}
+      {queued.length > 0 && (
+        <div className={online ? "" : "mt-2"}>
+          <div className="text-sm opacity-80 mb-1">
+            {sending ? "Sending saved questions…" : `Waiting to send (${queued.length})`}
+          </div>
+          <ul className="text-sm space-y-1">
+            {queued.map(q => (
+              <li key={q.id} className="flex flex-wrap items-center gap-2">
+                <span className="opacity-70">{q.subject}</span>
+                <span>{q.message || "Photo of my worksheet"}</span>
+                {q.images?.length ? <span className="opacity-70">📷 {q.images.length}</span> : null}
+                {!sending && <button className="btn btn-outline ml-auto" onClick={() => props.onRemove(q.id)}>Don’t send</button>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
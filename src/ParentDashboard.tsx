@@ -0,0 +1,339 @@
+import { useEffect, useMemo, useState } from "react";
+import { loadSessionsSince } from "./sessions";
+import { getUsage, type UsageReport } from "./api";
+import { clearModerationLog, loadModerationLog, type ModerationEvent } from "./moderation";
+import { supabase } from "./supabase";
+import { currentHouseholdId } from "./auth";
+import { renderMarkdown } from "./markdown";
+import AssignmentsPanel from "./AssignmentsPanel";
+import { loadMastery, masteryLabel, type Mastery } from "./mastery";
+import type { Skill } from "./skills";
+import { fmtMinutes, summarize, SUBJECTS, weeklyReport, type SessionRow } from "./stats";
+
+const WEEKS = 8;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Read-only: cloud rows are only merged into the view, not written locally
+async function loadCloudSessions(profileId: string, since: number): Promise<SessionRow[]> {
+  const householdId = await currentHouseholdId();
+  if (!householdId) throw new Error("sign in with the parent account first");
+  const { data, error } = await supabase
+    .from("sessions_cloud")
+    .select("id, profile_id, subject, prompt, confusing_words, wins, test_result, created_at")
+    .eq("household_id", householdId)
+    .eq("profile_id", profileId)
+    .is("deleted_at", null)
+    .gte("created_at", new Date(since).toISOString());
+  if (error || !data) throw new Error(error?.message ?? "no data");
+  return data.map(r => ({
+    id: r.id,
+    profileId: r.profile_id,
+    subject: r.subject,
+    prompt: r.prompt,
+    confusingWords: r.confusing_words ?? undefined,
+    wins: r.wins ?? undefined,
+    testResult: r.test_result ?? undefined,
+    createdAt: new Date(r.created_at).getTime(),
+  }));
+}
+
+function Bar(props: { value: number; max: number; label: string }) {
+  const pct = props.max > 0 ? Math.max(2, (100 * props.value) / props.max) : 0;
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <div className="flex-1 h-3 rounded bg-black/5">
+        <div className="h-3 rounded bg-sky-500" style={{ width: `${pct}%` }} />
+      </div>
+      <div className="w-28 text-right tabular-nums">{props.label}</div>
+    </div>
+  );
+}
+
+const FLAG_LABELS: Record<ModerationEvent["category"], string> = {
+  profanity: "Bad language",
+  insult: "Unkind words",
+  self_harm: "Possible self-harm",
+  personal_info: "Personal info",
+};
+
+// "12.3k / 60k tokens" (no budget: just the count)
+function tokens(used: number, budget: number) {
+  const k = (n: number) => (n >= 1000 ? `${(n / 1000).toFixed(n >= 10_000 ? 0 : 1)}k` : String(n));
+  return budget ? `${k(used)} / ${k(budget)}` : k(used);
+}
+
+const trendText = (n: number, unit: string) =>
+  n === 0 ? "same as last week" : `${n > 0 ? "▲" : "▼"} ${Math.abs(Math.round(n))}${unit} vs last week`;
+
+// Parent-only progress view for one profile (opened behind the PIN)
+export default function ParentDashboard(props: {
+  profile: { id: string; name: string };
+  profiles: { id: string; name: string }[];
+  onPractice: (skill: Skill) => void;
+}) {
+  const { profile, profiles, onPractice } = props;
+  const [rows, setRows] = useState<SessionRow[]>([]);
+  const [includeCloud, setIncludeCloud] = useState(false);
+  const [cloudError, setCloudError] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [flags, setFlags] = useState<ModerationEvent[]>([]);
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [usageError, setUsageError] = useState("");
+  const [skills, setSkills] = useState<(Mastery & { info: Skill })[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setLoading(true); setCloudError("");
+      // Only the charted weeks are loaded; tricky-word and win lists cover the same window
+      const since = Date.now() - WEEKS * 7 * DAY - 7 * DAY;
+      const local = await loadSessionsSince(profile.id, since);
+      let merged: SessionRow[] = local;
+      if (includeCloud) {
+        try {
+          const cloud = await loadCloudSessions(profile.id, since);
+          const seen = new Set(local.map(r => r.id));
+          merged = [...local, ...cloud.filter(r => !seen.has(r.id))];
+        } catch (e) {
+          if (!cancelled) setCloudError(e instanceof Error ? e.message : String(e));
+        }
+      }
+      if (!cancelled) { setRows(merged); setLoading(false); }
+    })();
+    return () => { cancelled = true; };
+  }, [profile.id, includeCloud]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadModerationLog(profile.id).then(rows => { if (!cancelled) setFlags(rows); });
+    loadMastery(profile.id).then(rows => { if (!cancelled) setSkills(rows); });
+    return () => { cancelled = true; };
+  }, [profile.id]);
+  // Tutor spend for every child, from the function's usage store
+  const profileIds = profiles.map(p => p.id).join(",");
+  useEffect(() => {
+    let cancelled = false;
+    setUsageError("");
+    getUsage(profileIds.split(","))
+      .then(report => { if (!cancelled) setUsage(report); })
+      .catch(e => { if (!cancelled) setUsageError(e instanceof Error ? e.message : String(e)); });
+    return () => { cancelled = true; };
+  }, [profileIds]);
+
+  async function clearFlags() {
+    if (!confirm("Clear the safety log for this profile?")) return;
+    await clearModerationLog(profile.id);
+    setFlags([]);
+  }
+
+  const summary = useMemo(() => summarize(rows, WEEKS), [rows]);
+  const report = useMemo(() => weeklyReport(profile.name, summary), [profile.name, summary]);
+  const week = summary.weeks[summary.weeks.length - 1];
+  const maxWeekMinutes = Math.max(...summary.weeks.map(w => w.minutes));
+  const maxSubjectMinutes = Math.max(...SUBJECTS.map(s => week.bySubject[s].minutes));
+  const maxWeekWins = Math.max(...summary.weeks.map(w => w.wins.length));
+
+  function downloadReport() {
+    const blob = new Blob([report], { type: "text/markdown" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url; a.download = `weekly-report-${profile.name}-${new Date(week.weekStart).toISOString().slice(0, 10)}.md`; a.click();
+    URL.revokeObjectURL(url);
+  }
+  function printReport() {
+    const w = window.open("", "_blank");
+    if (!w) return alert("Please allow pop-ups to print the report.");
+    w.document.write(`<!doctype html><title>Weekly report</title>
+<style>body{font-family:system-ui,sans-serif;max-width:72ch;margin:2rem auto;line-height:1.6}table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:.25rem .5rem}</style>
+${renderMarkdown(report)}`);
+    w.document.close();
+    w.focus();
+    w.print();
+  }
+
+  return (
+    <section className="card">
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <div className="text-lg font-semibold mr-auto">Progress: {profile.name}</div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={includeCloud} onChange={e => setIncludeCloud(e.target.checked)} />
+          <span>Include cloud history</span>
+        </label>
+        <button className="btn btn-outline" onClick={printReport} disabled={loading}>Print weekly report</button>
+        <button className="btn btn-outline" onClick={downloadReport} disabled={loading}>Download report</button>
+      </div>
+      {cloudError && <div className="mb-3 text-sm">Couldn’t load cloud history: {cloudError}</div>}
+
+      {loading ? (
+        <div className="opacity-70 text-sm">Loading…</div>
+      ) : (
+        <div className="grid gap-4">
+          {/* This week at a glance */}
+          <div className="grid gap-2 sm:grid-cols-3">
+            <div className="p-3 rounded-xl border">
+              <div className="text-sm opacity-80">Sessions this week</div>
+              <div className="text-2xl font-semibold">{week.sessions}</div>
+              <div className="text-xs opacity-80">{trendText(summary.trend.sessions, "")}</div>
+            </div>
+            <div className="p-3 rounded-xl border">
+              <div className="text-sm opacity-80">Time this week (est.)</div>
+              <div className="text-2xl font-semibold">{fmtMinutes(week.minutes)}</div>
+              <div className="text-xs opacity-80">{trendText(summary.trend.minutes, " min")}</div>
+            </div>
+            <div className="p-3 rounded-xl border">
+              <div className="text-sm opacity-80">Practice test average</div>
+              <div className="text-2xl font-semibold">
+                {week.tests.avgPercent === null ? "—" : `${Math.round(week.tests.avgPercent)}%`}
+              </div>
+              <div className="text-xs opacity-80">
+                {summary.trend.testPercent === null ? `${week.tests.taken} test(s)` : trendText(summary.trend.testPercent, " pts")}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div className="font-medium mb-1">This week by subject</div>
+            <div className="grid gap-1">
+              {SUBJECTS.map(s => (
+                <div key={s} className="flex items-center gap-2">
+                  <div className="w-20 text-sm">{s}</div>
+                  <div className="flex-1">
+                    <Bar value={week.bySubject[s].minutes} max={maxSubjectMinutes}
+                      label={`${week.bySubject[s].sessions} • ${fmtMinutes(week.bySubject[s].minutes)}`} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="font-medium mb-1">Last {WEEKS} weeks</div>
+            <div className="grid gap-1">
+              {summary.weeks.map(w => (
+                <div key={w.weekStart} className="flex items-center gap-2">
+                  <div className="w-20 text-sm">{new Date(w.weekStart).toLocaleDateString(undefined, { month: "short", day: "numeric" })}</div>
+                  <div className="flex-1">
+                    <Bar value={w.minutes} max={maxWeekMinutes} label={`${w.sessions} • ${fmtMinutes(w.minutes)}`} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <div className="font-medium mb-1">Most frequent tricky words</div>
+              {summary.topWords.length === 0 ? (
+                <div className="text-sm opacity-70">None logged yet.</div>
+              ) : (
+                <ol className="text-sm list-decimal ml-5">
+                  {summary.topWords.map(w => <li key={w.word}>{w.word} <span className="opacity-70">×{w.count}</span></li>)}
+                </ol>
+              )}
+            </div>
+            <div>
+              <div className="font-medium mb-1">Wins over time</div>
+              <div className="grid gap-1 mb-2">
+                {summary.weeks.map(w => (
+                  <Bar key={w.weekStart} value={w.wins.length} max={maxWeekWins}
+                    label={`${new Date(w.weekStart).toLocaleDateString(undefined, { month: "short", day: "numeric" })}: ${w.wins.length}`} />
+                ))}
+              </div>
+              <ul className="text-sm space-y-0.5">
+                {summary.wins.slice(0, 10).map((w, i) => (
+                  <li key={i}><span className="opacity-70">{new Date(w.at).toLocaleDateString()}</span> {w.text}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <AssignmentsPanel profile={profile} />
+
+      {/* Curriculum skills from tests and checked answers, weakest first */}
+      <div className="mt-4">
+        <div className="font-medium mb-1">Skills</div>
+        {skills.length === 0 ? (
+          <div className="text-sm opacity-70">No skills tracked yet. Practice tests and checked answers fill this in.</div>
+        ) : (
+          <table className="text-sm">
+            <thead>
+              <tr><th className="text-left pr-4">Skill</th><th className="text-right pr-4">Mastery</th><th className="text-right pr-4">Right</th><th /></tr>
+            </thead>
+            <tbody>
+              {skills.map(s => (
+                <tr key={s.id}>
+                  <td className="pr-4 py-1">{s.info.name} <span className="opacity-70">{s.info.code}</span></td>
+                  <td className="text-right pr-4 tabular-nums">{Math.round(s.p * 100)}% · {masteryLabel(s.p)}</td>
+                  <td className="text-right pr-4 tabular-nums">{s.correct} / {s.attempts}</td>
+                  <td><button className="btn btn-outline" onClick={() => onPractice(s.info)}>Practice</button></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="mt-4">
+        <div className="font-medium mb-1">Tutor usage</div>
+        {usageError && <div className="text-sm">Couldn’t load usage: {usageError}</div>}
+        {usage && (
+          <table className="text-sm">
+            <thead>
+              <tr><th className="text-left pr-4">Child</th><th className="text-right pr-4">Today</th><th className="text-right pr-4">This month</th><th className="text-right">Est. cost</th></tr>
+            </thead>
+            <tbody>
+              {profiles.map(p => {
+                const u = usage.usage[p.id];
+                if (!u) return null;
+                return (
+                  <tr key={p.id}>
+                    <td className="pr-4">{p.name}</td>
+                    <td className="text-right pr-4 tabular-nums">{tokens(u.today.tokens, 0)}</td>
+                    <td className="text-right pr-4 tabular-nums">{tokens(u.month.tokens, 0)}</td>
+                    <td className="text-right tabular-nums">${u.month.costUsd.toFixed(2)}</td>
+                  </tr>
+                );
+              })}
+              <tr className="font-medium">
+                <td className="pr-4">Household</td>
+                <td className="text-right pr-4 tabular-nums">{tokens(usage.total.today.tokens, usage.limits.dailyTokens)}</td>
+                <td className="text-right pr-4 tabular-nums">{tokens(usage.total.month.tokens, usage.limits.monthlyTokens)}</td>
+                <td className="text-right tabular-nums">${usage.total.month.costUsd.toFixed(2)}</td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+        {usage && (
+          <div className="text-xs opacity-80 mt-1">
+            Tokens used. The budget is for the whole household, shared by every child on devices signed in to this account.
+            Limit: {usage.limits.perMinute || "no"} questions a minute.
+          </div>
+        )}
+      </div>
+
+      {/* Everything the content filter blocked or hid, newest first */}
+      <div className="mt-4">
+        <div className="flex items-center gap-2 mb-1">
+          <div className="font-medium mr-auto">Safety log</div>
+          {flags.length > 0 && <button className="btn btn-outline" onClick={clearFlags}>Clear log</button>}
+        </div>
+        {flags.length === 0 ? (
+          <div className="text-sm opacity-70">Nothing flagged.</div>
+        ) : (
+          <ul className="text-sm space-y-1">
+            {flags.map(f => (
+              <li key={f.id}>
+                <span className="opacity-70">{new Date(f.at).toLocaleString()} • {f.subject}</span>{" "}
+                <b>{FLAG_LABELS[f.category]}</b>{" "}
+                ({f.where === "input" ? "typed by the child" : "in the tutor’s answer"}, {f.action})
+                {f.excerpt && <div className="opacity-80 break-words">“{f.excerpt}”</div>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
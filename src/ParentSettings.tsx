@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { supabase } from "./supabase";
+import { useParentSession } from "./auth";
+import { changePin, hasPin, lockoutMessage } from "./parentPin";
+
+// Parent account sign-in + PIN change, shown in the global settings card
+export default function ParentSettings() {
+  const session = useParentSession();
+  const [mode, setMode] = useState<"idle" | "signin" | "pin">("idle");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [currentPin, setCurrentPin] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  function close() {
+    setMode("idle"); setPassword(""); setCurrentPin(""); setNewPin(""); setConfirmPin("");
+  }
+
+  async function signIn(create: boolean) {
+    if (!email.trim() || !password) return alert("Enter the parent email and password.");
+    setBusy(true);
+    const creds = { email: email.trim(), password };
+    const { error } = create ? await supabase.auth.signUp(creds) : await supabase.auth.signInWithPassword(creds);
+    setBusy(false);
+    if (error) return alert(`Sign-in failed: ${error.message}`);
+    if (create) alert("Account created. Check your email if confirmation is required.");
+    close();
+  }
+  async function signOut() {
+    const { error } = await supabase.auth.signOut();
+    if (error) alert(`Sign-out failed: ${error.message}`);
+  }
+
+  async function savePin() {
+    if (newPin !== confirmPin) return alert("The new PINs didn’t match.");
+    setBusy(true);
+    const result = await changePin(currentPin, newPin);
+    setBusy(false);
+    if (result === "invalid") return alert("The PIN must be 4–8 digits.");
+    if (result === "locked") return alert(lockoutMessage());
+    if (result === "wrong") return alert("Current PIN is incorrect.");
+    alert("Parent PIN updated.");
+    close();
+  }
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span>Parent account:</span>
+        {session ? (
+          <>
+            <b>{session.user.email}</b>
+            <button className="btn btn-outline" onClick={signOut}>Sign out</button>
+          </>
+        ) : (
+          <button className="btn btn-outline" onClick={() => setMode("signin")}>Sign in</button>
+        )}
+        <button className="btn btn-outline" onClick={() => setMode("pin")}>{hasPin() ? "Change parent PIN" : "Set parent PIN"}</button>
+      </div>
+
+      {mode === "signin" && (
+        <div className="flex items-center gap-2 flex-wrap">
+          <input className="border rounded px-2 py-1" type="email" placeholder="Parent email" autoComplete="username"
+            value={email} onChange={e => setEmail(e.target.value)} />
+          <input className="border rounded px-2 py-1" type="password" placeholder="Password" autoComplete="current-password"
+            value={password} onChange={e => setPassword(e.target.value)} />
+          <button className="btn btn-primary" disabled={busy} onClick={() => signIn(false)}>Sign in</button>
+          <button className="btn btn-outline" disabled={busy} onClick={() => signIn(true)}>Create account</button>
+          <button className="btn btn-outline" onClick={close}>Cancel</button>
+        </div>
+      )}
+
+      {mode === "pin" && (
+        <div className="flex items-center gap-2 flex-wrap">
+          {hasPin() && (
+            <input className="border rounded px-2 py-1 w-28" type="password" inputMode="numeric" placeholder="Current PIN"
+              autoComplete="off" value={currentPin} onChange={e => setCurrentPin(e.target.value.trim())} />
+          )}
+          <input className="border rounded px-2 py-1 w-28" type="password" inputMode="numeric" placeholder="New PIN"
+            autoComplete="off" value={newPin} onChange={e => setNewPin(e.target.value.trim())} />
+          <input className="border rounded px-2 py-1 w-28" type="password" inputMode="numeric" placeholder="Repeat new PIN"
+            autoComplete="off" value={confirmPin} onChange={e => setConfirmPin(e.target.value.trim())} />
+          <button className="btn btn-primary" disabled={busy} onClick={savePin}>Save PIN</button>
+          <button className="btn btn-outline" onClick={close}>Cancel</button>
+        </div>
+      )}
+    </div>
+  );
+}
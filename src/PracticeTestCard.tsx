@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { renderInlineMarkdown, renderMarkdown } from "./markdown";
+import { gradeTest, type PracticeTest, type TestResult } from "./practiceTest";
+
+// Fillable quiz for a generated practice test; grades locally on submit.
+export default function PracticeTestCard(props: {
+  test: PracticeTest;
+  result: TestResult | null;
+  dyslexiaAssist: boolean;
+  lineSpacing: number;
+  onGraded: (result: TestResult) => void;
+  onRetry: () => void;
+  onClose: () => void;
+}) {
+  const { test, result, dyslexiaAssist, lineSpacing } = props;
+  const [answers, setAnswers] = useState<Record<string, string>>(() => result?.answers ?? {});
+  const bodyClass = `${dyslexiaAssist ? "dyslexia-on" : ""} answer-body`;
+  const setAnswer = (id: string, value: string) => setAnswers(prev => ({ ...prev, [id]: value }));
+
+  function submit() {
+    const unanswered = test.questions.filter(q => !answers[q.id]?.trim()).length;
+    if (unanswered > 0 && !confirm(`${unanswered} question(s) are blank. Check anyway?`)) return;
+    props.onGraded(gradeTest(test, answers));
+  }
+  function retry() { setAnswers({}); props.onRetry(); }
+
+  return (
+    <section className="card mb-3 p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold">{test.title}</h3>
+        <button className="btn btn-outline" onClick={props.onClose}>Close</button>
+      </div>
+
+      {result && (
+        <div className="mb-3 p-3 rounded border font-medium" role="status">
+          You got {result.score} out of {result.total}{result.score === result.total ? " 🎉" : ""}
+        </div>
+      )}
+
+      <ol className="space-y-4">
+        {test.questions.map((q, i) => {
+          const graded = result?.results.find(r => r.id === q.id);
+          return (
+            <li key={q.id} className="p-3 rounded border">
+              <div className="flex gap-2">
+                <span className="font-medium">{i + 1}.</span>
+                <div className={bodyClass} style={{ lineHeight: lineSpacing }}
+                  dangerouslySetInnerHTML={{ __html: renderMarkdown(q.prompt) }} />
+              </div>
+
+              {q.type === "multiple_choice" ? (
+                <div className="mt-2 grid gap-1">
+                  {(q.choices ?? []).map(choice => (
+                    <label key={choice} className="flex items-center gap-2">
+                      <input type="radio" name={q.id} value={choice} disabled={!!result}
+                        checked={answers[q.id] === choice} onChange={() => setAnswer(q.id, choice)} />
+                      <span className={bodyClass} dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(choice) }} />
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <input className="mt-2 border rounded px-2 py-1 w-full max-w-xs" disabled={!!result}
+                  value={answers[q.id] ?? ""} onChange={e => setAnswer(q.id, e.target.value)}
+                  placeholder={q.type === "numeric" ? "e.g. 6/5 or 1.2" : "Your answer"}
+                  aria-label={`Answer for question ${i + 1}`} />
+              )}
+
+              {graded && (
+                <div className="mt-2 text-sm">
+                  {graded.correct ? (
+                    <div className="font-medium">✅ Correct!</div>
+                  ) : (
+                    <div>
+                      <span className="font-medium">Not quite.</span> Answer:{" "}
+                      <span className={bodyClass} dangerouslySetInnerHTML={{ __html: renderInlineMarkdown(q.answer) }} />
+                    </div>
+                  )}
+                  {q.explanation && (
+                    <div className={`${bodyClass} opacity-80`}
+                      dangerouslySetInnerHTML={{ __html: renderMarkdown(q.explanation) }} />
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="mt-3 flex gap-2">
+        {result
+          ? <button className="btn btn-outline" onClick={retry}>Try again</button>
+          : <button className="btn btn-primary" onClick={submit}>Check my answers</button>}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,76 @@
+import { SUBJECTS, type SubjectKey } from "./stats";
+import {
+  defaultPrompts, fillTemplate, MAX_ACTIONS, MAX_LABEL_LENGTH, MAX_NOTE_LENGTH, MAX_TEMPLATE_LENGTH, TEMPLATE_VARIABLES,
+  type PromptSettings, type QuickAction,
+} from "./prompts";
+
+const NOTE_EXAMPLES: Record<SubjectKey, string> = {
+  reading: "e.g. Use phonics cues: sound out tricky words by syllable.",
+  writing: "e.g. Point out sentences that don’t start with a capital letter.",
+  math: "e.g. We use the column method for subtraction at school.",
+  science: "e.g. Link answers to things we can try at home.",
+  study: "e.g. Suggest short breaks every 20 minutes.",
+};
+
+// Parent side of the prompt templates, inside the (PIN-protected) profile editor
+export default function PromptEditor(props: { value: PromptSettings; grade: string; onChange: (value: PromptSettings) => void }) {
+  const { value, onChange } = props;
+  const setAction = (id: string, fields: Partial<QuickAction>) =>
+    onChange({ ...value, actions: value.actions.map(a => (a.id === id ? { ...a, ...fields } : a)) });
+  const addAction = () =>
+    onChange({ ...value, actions: [...value.actions, { id: crypto.randomUUID(), label: "", template: "" }] });
+  const removeAction = (id: string) => onChange({ ...value, actions: value.actions.filter(a => a.id !== id) });
+  const setNote = (subject: SubjectKey, note: string) =>
+    onChange({ ...value, subjectNotes: { ...value.subjectNotes, [subject]: note } });
+  function reset() {
+    if (confirm("Put back the standard buttons and clear the subject notes?")) onChange(defaultPrompts());
+  }
+
+  return (
+    <div className="mt-3">
+      <div className="font-medium mb-1">Quick-action buttons</div>
+      <p className="text-sm opacity-80 mb-2">
+        Each button asks the tutor what you write here, as a follow-up. You can use
+        {TEMPLATE_VARIABLES.map(v => <code key={v} className="mx-1">{`{${v}}`}</code>)}
+        ({"{message}"} is whatever is in the question box).
+      </p>
+      <ul className="space-y-2">
+        {value.actions.map((a, i) => (
+          <li key={a.id} className="flex flex-wrap items-start gap-2 text-sm">
+            <input className="w-32 border rounded px-2 py-1" value={a.label} maxLength={MAX_LABEL_LENGTH}
+              onChange={e => setAction(a.id, { label: e.target.value })} placeholder="Button label" aria-label={`Button ${i + 1} label`} />
+            <div className="flex-1 min-w-48">
+              <textarea className="w-full border rounded px-2 py-1" rows={2} value={a.template} maxLength={MAX_TEMPLATE_LENGTH}
+                onChange={e => setAction(a.id, { template: e.target.value })}
+                placeholder="e.g. Give me a real-life example of {message} for grade {grade}." aria-label={`Button ${i + 1} asks`} />
+              {a.template.includes("{") && (
+                <div className="opacity-70">
+                  Sends: {fillTemplate(a.template, { grade: props.grade, subject: "math", message: "adding fractions" })}
+                </div>
+              )}
+            </div>
+            <button className="btn btn-outline" onClick={() => removeAction(a.id)}>Remove</button>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {value.actions.length < MAX_ACTIONS && <button className="btn btn-outline" onClick={addAction}>Add button</button>}
+        <button className="btn btn-outline" onClick={reset}>Use standard buttons</button>
+      </div>
+
+      <div className="font-medium mt-3 mb-1">Notes for the tutor, by subject</div>
+      <p className="text-sm opacity-80 mb-2">
+        Added to the tutor’s instructions for that subject. Its own safety rules always come first.
+      </p>
+      <div className="grid gap-2 sm:grid-cols-2 text-sm">
+        {SUBJECTS.map(s => (
+          <label key={s} className="flex flex-col gap-1">
+            <span>{s}</span>
+            <textarea className="border rounded px-2 py-1" rows={2} value={value.subjectNotes[s] ?? ""} maxLength={MAX_NOTE_LENGTH}
+              onChange={e => setNote(s, e.target.value)} placeholder={NOTE_EXAMPLES[s]} />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
+import { renderMarkdown } from "./markdown";
+import { segmentSpeech, speechSupported, utterance, type SpokenSentence, type VoicePrefs } from "./speech";
+
+type Status = "idle" | "playing" | "paused";
+
+// Index of the word a boundary event's character offset falls in
+function wordAt(sentence: SpokenSentence, charIndex: number) {
+  let i = 0;
+  while (i + 1 < sentence.words.length && sentence.words[i + 1].start <= charIndex) i++;
+  return i;
+}
+
+// Rendered answer that reads itself aloud karaoke-style: the sentence being read is
+// highlighted, and the current word too when the voice reports word boundaries.
+// One utterance per sentence keeps pause/resume reliable and lets a tap replay any sentence.
+export default function ReadAloud(props: {
+  markdown: string;
+  voice: VoicePrefs;
+  className?: string;
+  style?: CSSProperties;
+}) {
+  const { voice } = props;
+  const html = useMemo(() => renderMarkdown(props.markdown), [props.markdown]);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const sentencesRef = useRef<SpokenSentence[]>([]);
+  const runRef = useRef(0); // bumped on every start/stop so callbacks of old utterances are ignored
+  const usedRef = useRef(false); // taps only replay once this answer has been read aloud
+  const [status, setStatus] = useState<Status>("idle");
+
+  const highlight = useCallback((sentence: SpokenSentence | null, word: number | null) => {
+    bodyRef.current?.querySelectorAll(".ra-sentence, .ra-now").forEach(el => el.classList.remove("ra-sentence", "ra-now"));
+    if (!sentence) return;
+    sentence.words.forEach((w, i) => {
+      w.el?.classList.add("ra-sentence");
+      if (i === word) w.el?.classList.add("ra-now");
+    });
+  }, []);
+
+  const stop = useCallback(() => {
+    runRef.current++;
+    if (usedRef.current && speechSupported()) window.speechSynthesis.cancel();
+    highlight(null, null);
+    setStatus("idle");
+  }, [highlight]);
+
+  // The body is filled here rather than through React so the word wrappers survive re-renders
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    body.innerHTML = html;
+    sentencesRef.current = segmentSpeech(body, true);
+    usedRef.current = false;
+    return stop;
+  }, [html, stop]);
+
+  function playFrom(index: number) {
+    const sentences = sentencesRef.current;
+    const run = ++runRef.current;
+    usedRef.current = true;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.resume(); // a paused queue stays paused after cancel() in some browsers
+    const next = (i: number) => {
+      if (run !== runRef.current) return;
+      if (i >= sentences.length) { highlight(null, null); setStatus("idle"); return; }
+      const sentence = sentences[i];
+      highlight(sentence, null);
+      const u = utterance(sentence.text, voice);
+      u.onboundary = e => { if (run === runRef.current && e.name === "word") highlight(sentence, wordAt(sentence, e.charIndex)); };
+      u.onend = () => next(i + 1);
+      u.onerror = e => { if (e.error !== "interrupted" && e.error !== "canceled") next(i + 1); };
+      window.speechSynthesis.speak(u);
+    };
+    setStatus("playing");
+    next(index);
+  }
+  function pause() { window.speechSynthesis.pause(); setStatus("paused"); }
+  function resume() { window.speechSynthesis.resume(); setStatus("playing"); }
+
+  // Tap a sentence to hear it (again), and carry on from there
+  function onTap(target: EventTarget) {
+    if (!speechSupported() || !usedRef.current) return;
+    const el = (target as HTMLElement).closest<HTMLElement>("[data-s]");
+    if (el) playFrom(Number(el.dataset.s));
+  }
+
+  return (
+    <>
+      {speechSupported() && (
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          {status === "idle" && <button className="btn btn-outline" onClick={() => playFrom(0)}>Read Aloud</button>}
+          {status === "playing" && <button className="btn btn-outline" onClick={pause}>Pause</button>}
+          {status === "paused" && <button className="btn btn-outline" onClick={resume}>Resume</button>}
+          {status !== "idle" && <button className="btn btn-outline" onClick={stop}>Stop</button>}
+          {status !== "idle" && <span className="text-sm opacity-70">Tap a sentence to hear it again.</span>}
+        </div>
+      )}
+      <div ref={bodyRef} className={`${props.className ?? ""} read-aloud`} style={props.style} onClick={e => onTap(e.target)} />
+    </>
+  );
+}
@@ -0,0 +1,21 @@
+import { aboveGrade, type Readability } from "./readability";
+import type { GradeLevel } from "./profiles";
+
+const label = (grade: number) => (grade < 1 ? "K" : String(Math.round(grade)));
+
+// Small reading-level badge for the answer card; the details are in the tooltip
+export default function ReadingBadge(props: { score: Readability | null; grade: GradeLevel; rewritten: boolean }) {
+  const { score } = props;
+  if (!score) return null;
+  const over = aboveGrade(score, props.grade);
+  const details = `Flesch-Kincaid grade ${score.grade} · ${score.wordsPerSentence} words per sentence · ${Math.round(score.hardWords * 100)}% long words`;
+  return (
+    <div className="flex justify-end mb-1">
+      <span className={`text-xs border rounded-full px-2 py-0.5 ${over ? "font-medium" : "opacity-70"}`} title={details} aria-label={`Reading level: ${details}`}>
+        Reading level: grade {label(score.grade)}
+        {over && ` (above grade ${props.grade})`}
+        {props.rewritten && " · simplified"}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { speak, spokenText, type VoicePrefs } from "./speech";
+import type { Strictness } from "./moderation";
+import {
+  collectDeck, countCards, defineCard, loadDueCards, saveCard, schedule,
+  type Rating, type VocabCard,
+} from "./vocab";
+
+const RATINGS: { rating: Rating; label: string }[] = [
+  { rating: "again", label: "Forgot" },
+  { rating: "hard", label: "Hard" },
+  { rating: "good", label: "Got it" },
+  { rating: "easy", label: "Easy" },
+];
+
+// Daily review of the profile's tricky words
+export default function ReviewDeck(props: {
+  profile: { id: string; grade: string; dyslexiaAssist: boolean; safety: Strictness; prefs: { voice: VoicePrefs } };
+  lineSpacing: number;
+}) {
+  const { profile, lineSpacing } = props;
+  const [queue, setQueue] = useState<VocabCard[]>([]);
+  const [total, setTotal] = useState(0);
+  const [reviewed, setReviewed] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      await collectDeck(profile.id);
+      const due = await loadDueCards(profile.id);
+      const count = await countCards(profile.id);
+      if (cancelled) return;
+      setQueue(due); setTotal(count); setReviewed(0); setRevealed(false); setLoading(false);
+    })();
+    return () => { cancelled = true; };
+  }, [profile.id]);
+
+  const card = queue[0];
+
+  // Fetch a definition the first time a word comes up
+  useEffect(() => {
+    if (!card || card.definition) return;
+    let cancelled = false;
+    defineCard(card, { id: profile.id, grade: profile.grade, dyslexiaAssist: profile.dyslexiaAssist, safety: profile.safety }).then(next => {
+      // Just the definition: the card in the queue may have been rated since
+      if (!cancelled && next !== card) setQueue(q => q.map(c => c.id === next.id ? { ...c, definition: next.definition, example: next.example } : c));
+    });
+    return () => { cancelled = true; };
+  }, [card, profile.id, profile.grade, profile.dyslexiaAssist, profile.safety]);
+
+  async function rate(rating: Rating) {
+    if (!card) return;
+    const next = schedule(card, rating);
+    await saveCard(next);
+    // A forgotten word comes back at the end of today's session
+    setQueue(q => rating === "again" ? [...q.slice(1), next] : q.slice(1));
+    setReviewed(n => n + 1);
+    setRevealed(false);
+  }
+
+  const readCard = (c: VocabCard) =>
+    speak(spokenText([c.word, c.definition, c.example ? `For example: ${c.example}` : ""].filter(Boolean).join(". ")), profile.prefs.voice);
+
+  return (
+    <section className="card">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="text-lg font-semibold">Review tricky words</div>
+        <div className="text-sm opacity-80">{queue.length} due today • {total} in deck</div>
+      </div>
+
+      {loading ? (
+        <div className="opacity-70 text-sm">Loading your words…</div>
+      ) : !card ? (
+        <div className="text-sm">
+          {total === 0
+            ? "No tricky words yet. Add some with “Add word” after asking the tutor."
+            : `All done for today${reviewed > 0 ? ` — you reviewed ${reviewed} card${reviewed === 1 ? "" : "s"}` : ""}! 🎉`}
+        </div>
+      ) : (
+        <div className={`p-4 rounded-xl border ${profile.dyslexiaAssist ? "dyslexia-on" : ""}`} style={{ lineHeight: lineSpacing }}>
+          <div className="flex items-center gap-3">
+            <div className="text-2xl font-semibold">{card.word}</div>
+            <button className="btn btn-outline" onClick={() => speak(card.word, profile.prefs.voice)} aria-label={`Read ${card.word} aloud`}>🔊</button>
+          </div>
+
+          {revealed ? (
+            <div className="mt-3 space-y-2">
+              <div>{card.definition ?? "Looking up a kid-friendly meaning…"}</div>
+              {card.example && <div className="opacity-80"><i>{card.example}</i></div>}
+              <button className="btn btn-outline" onClick={() => readCard(card)}>Read Aloud</button>
+              <div className="pt-2">
+                <div className="text-sm mb-1">How well did you remember it?</div>
+                <div className="flex flex-wrap gap-2">
+                  {RATINGS.map(r => (
+                    <button key={r.rating} className="btn btn-outline" onClick={() => rate(r.rating)}>{r.label}</button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="mt-3">
+              <div className="text-sm opacity-80 mb-2">Can you say what it means? Then check.</div>
+              <button className="btn btn-primary" onClick={() => setRevealed(true)}>Show meaning</button>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import { dataUrl, loadSessionImages, type TutorImage } from "./images";
+
+// Photos that were sent with a session, if any are still stored
+export default function SessionPhotos(props: { sessionId: string }) {
+  const [images, setImages] = useState<TutorImage[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    loadSessionImages(props.sessionId).then(list => { if (!cancelled) setImages(list); });
+    return () => { cancelled = true; };
+  }, [props.sessionId]);
+  if (!images.length) return null;
+  return (
+    <div className="flex flex-wrap gap-2">
+      {images.map((img, i) => (
+        <img key={i} src={dataUrl(img)} alt={`Photo ${i + 1} sent with this question`} className="max-h-48 max-w-full rounded border" />
+      ))}
+    </div>
+  );
+}
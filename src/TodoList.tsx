@@ -0,0 +1,30 @@
+import { dueLabel, progressLabel, targetLabel, type Assignment } from "./assignments";
+
+// The child's side of the homework queue: open assignments, soonest due first
+export default function TodoList(props: {
+  assignments: Assignment[];
+  activeId: string | null;
+  onStart: (a: Assignment) => void;
+}) {
+  const open = props.assignments.filter(a => !a.completedAt);
+  if (open.length === 0) return null;
+  return (
+    <section className="card mb-3">
+      <div className="font-medium mb-2">To do</div>
+      <ul className="space-y-2">
+        {open.map(a => (
+          <li key={a.id} className="flex flex-wrap items-center gap-2">
+            <span className="opacity-70 text-sm">{a.subject}</span>
+            <span>{a.prompt}</span>
+            <span className="text-sm opacity-80">
+              {targetLabel(a.target)}{a.dueAt ? ` • ${dueLabel(a)}` : ""} • {progressLabel(a)}
+            </span>
+            {a.id === props.activeId
+              ? <span className="ml-auto text-sm font-medium">Working on it</span>
+              : <button className="btn btn-outline ml-auto" onClick={() => props.onStart(a)}>Start</button>}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
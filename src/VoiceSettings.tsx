@@ -0,0 +1,32 @@
+import { speak, speechSupported, useVoices, type VoicePrefs } from "./speech";
+
+// Voice, speed and pitch for read-aloud (saved on the active profile)
+export default function VoiceSettings(props: { voice: VoicePrefs; onChange: (voice: VoicePrefs) => void }) {
+  const { voice } = props;
+  const voices = useVoices();
+  if (!speechSupported()) return null;
+  const set = (patch: Partial<VoicePrefs>) => props.onChange({ ...voice, ...patch });
+
+  return (
+    <>
+      <label className="flex items-center gap-2">
+        <span>Voice</span>
+        <select value={voice.voiceURI} onChange={e => set({ voiceURI: e.target.value })} className="border rounded px-2 py-1 max-w-[16ch]">
+          <option value="">Default</option>
+          {voices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        <span>Speed</span>
+        <input type="range" min={0.5} max={1.5} step={0.1} value={voice.rate}
+          onChange={e => set({ rate: Number(e.target.value) })} aria-valuetext={`${voice.rate}×`} />
+      </label>
+      <label className="flex items-center gap-2">
+        <span>Pitch</span>
+        <input type="range" min={0.5} max={1.5} step={0.1} value={voice.pitch}
+          onChange={e => set({ pitch: Number(e.target.value) })} />
+      </label>
+      <button className="btn btn-outline" onClick={() => speak("Hi! This is how I will read to you.", voice)}>Try voice</button>
+    </>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Strictness } from "./moderation";
+import type { PromptSettings } from "./prompts";
+import {
+  addRevision, deletePiece, diffWords, highlightSegments, loadPieces, MAX_DRAFT_LENGTH, newPiece, requestFeedback,
+  SCORE_LABELS, TRAIT_LABELS, TRAITS, type Revision, type WritingPiece,
+} from "./writing";
+
+// A revision's feedback: rubric scores, the draft with its comments highlighted, and the comments
+function FeedbackView(props: { revision: Revision; before?: Revision; lineSpacing: number; dyslexiaAssist: boolean }) {
+  const { revision, before } = props;
+  const feedback = revision.feedback;
+  const [active, setActive] = useState<number | null>(null);
+  const segments = useMemo(() => highlightSegments(revision.draft, feedback?.comments ?? []), [revision.draft, feedback]);
+  if (!feedback) return null;
+
+  return (
+    <div className="space-y-3">
+      <p>{feedback.summary}</p>
+
+      <table className="text-sm">
+        <tbody>
+          {TRAITS.map(t => {
+            const score = feedback.scores[t];
+            const was = before?.feedback?.scores[t];
+            return (
+              <tr key={t}>
+                <td className="pr-3 py-1"><span className={`wc-mark wc-${t} px-1`}>{TRAIT_LABELS[t]}</span></td>
+                <td className="pr-3 py-1 font-medium">{score} / 4</td>
+                <td className="pr-3 py-1 opacity-80">{SCORE_LABELS[score]}</td>
+                <td className="py-1">
+                  {was !== undefined && score !== was && <span className="font-medium">{score > was ? `▲ up from ${was}` : `▼ down from ${was}`}</span>}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className={`${props.dyslexiaAssist ? "dyslexia-on" : ""} whitespace-pre-wrap border rounded p-3`} style={{ lineHeight: props.lineSpacing }}>
+        {segments.map((s, i) => s.comments.length === 0 ? <span key={i}>{s.text}</span> : (
+          <mark key={i} role="button" tabIndex={0}
+            className={`wc-mark wc-${feedback.comments[s.comments[0]].trait} ${s.comments.includes(active ?? -1) ? "wc-active" : ""}`}
+            title={s.comments.map(c => feedback.comments[c].comment).join("\n")}
+            onClick={() => setActive(s.comments[0])}
+            onKeyDown={e => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); setActive(s.comments[0]); } }}>
+            {s.text}
+          </mark>
+        ))}
+      </div>
+
+      <ul className="space-y-2">
+        {feedback.comments.map((c, i) => (
+          <li key={i} className={`p-2 rounded border ${active === i ? "wc-active" : ""}`} onClick={() => setActive(i)}>
+            <span className={`wc-mark wc-${c.trait} px-1 text-sm mr-2`}>{TRAIT_LABELS[c.trait]}</span>
+            {c.quote && <q className="italic opacity-80 mr-1">{c.quote}</q>}
+            <div>{c.comment}</div>
+            {c.suggestion && <div className="text-sm mt-1"><span className="font-medium">Try:</span> {c.suggestion}</div>}
+          </li>
+        ))}
+      </ul>
+
+      <p><span className="font-medium">Next step:</span> {feedback.nextStep}</p>
+    </div>
+  );
+}
+
+// Word-level changes between two drafts
+function DiffView(props: { before: string; after: string; lineSpacing: number }) {
+  const parts = useMemo(() => diffWords(props.before, props.after), [props.before, props.after]);
+  return (
+    <div className="whitespace-pre-wrap border rounded p-3" style={{ lineHeight: props.lineSpacing }}>
+      {parts.map((p, i) => p.kind === "same" ? <span key={i}>{p.text}</span>
+        : p.kind === "added" ? <ins key={i} className="wc-added">{p.text}</ins>
+        : <del key={i} className="wc-removed">{p.text}</del>)}
+    </div>
+  );
+}
+
+// Paste a draft, get rubric feedback, revise, and see what changed from draft to draft
+export default function WritingCoach(props: {
+  profile: { id: string; grade: string; dyslexiaAssist: boolean; safety: Strictness; prompts: PromptSettings };
+  lineSpacing: number;
+}) {
+  const { profile, lineSpacing } = props;
+  const [pieces, setPieces] = useState<WritingPiece[]>([]);
+  const [pieceId, setPieceId] = useState<string | null>(null); // null = a new piece
+  const [title, setTitle] = useState("");
+  const [draft, setDraft] = useState("");
+  const [viewing, setViewing] = useState(0); // revision index
+  const [compare, setCompare] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const piece = pieces.find(p => p.id === pieceId) ?? null;
+  const latest = piece?.revisions[piece.revisions.length - 1];
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPieces(profile.id).then(list => { if (!cancelled) { setPieces(list); setPieceId(null); setTitle(""); setDraft(""); } });
+    return () => { cancelled = true; };
+  }, [profile.id]);
+
+  function open(id: string | null) {
+    const next = pieces.find(p => p.id === id);
+    setPieceId(next?.id ?? null);
+    setTitle(next?.title ?? "");
+    setDraft(next?.revisions[next.revisions.length - 1]?.draft ?? "");
+    setViewing(Math.max(0, (next?.revisions.length ?? 1) - 1));
+    setCompare(false); setError(null);
+  }
+
+  async function getFeedback() {
+    const text = draft.trim();
+    if (!text) return;
+    if (latest && latest.draft.trim() === text && latest.feedback) {
+      setError("This is the same as your last draft. Change something, then ask again.");
+      return;
+    }
+    setLoading(true); setError(null);
+    const name = title.trim() || text.split(/\s+/).slice(0, 6).join(" ");
+    const result = await requestFeedback(profile, name, text, latest?.draft);
+    setLoading(false);
+    if (!result.ok) { setError(result.message); return; }
+    const base = piece ? { ...piece, title: name } : newPiece(profile.id, name);
+    const saved = await addRevision(base, { at: Date.now(), draft: text, feedback: result.feedback });
+    setPieces(list => [saved, ...list.filter(p => p.id !== saved.id)]);
+    setPieceId(saved.id); setTitle(name);
+    setViewing(saved.revisions.length - 1); setCompare(false);
+  }
+
+  async function remove() {
+    if (!piece || !confirm(`Delete "${piece.title}" and all its drafts?`)) return;
+    await deletePiece(piece.id);
+    setPieces(list => list.filter(p => p.id !== piece.id));
+    open(null);
+  }
+
+  const shown = piece?.revisions[viewing];
+  const before = viewing > 0 ? piece?.revisions[viewing - 1] : undefined;
+
+  return (
+    <>
+      <section className="card mb-3">
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <span className="font-medium">Writing coach</span>
+          <select className="border rounded px-2 py-1" value={pieceId ?? ""} onChange={e => open(e.target.value || null)} aria-label="Piece of writing">
+            <option value="">New piece</option>
+            {pieces.map(p => <option key={p.id} value={p.id}>{p.title} ({p.revisions.length} draft{p.revisions.length === 1 ? "" : "s"})</option>)}
+          </select>
+          {piece && <button className="btn btn-outline" onClick={remove}>Delete piece</button>}
+        </div>
+        <input className="w-full border rounded px-2 py-1 mb-2" value={title} maxLength={120}
+          onChange={e => setTitle(e.target.value)} placeholder="Title (for example: My summer trip)" aria-label="Title" />
+        <textarea className="w-full border rounded p-3" rows={12} value={draft} maxLength={MAX_DRAFT_LENGTH}
+          style={{ lineHeight: lineSpacing }} onChange={e => setDraft(e.target.value)}
+          placeholder={piece ? "Revise your draft here, then ask for feedback again." : "Paste or type your draft here."} aria-label="Draft" />
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <button className={`btn btn-primary ${loading ? "opacity-70 cursor-not-allowed" : ""}`} onClick={getFeedback} disabled={loading || !draft.trim()}>
+            {loading ? "Reading your draft..." : piece ? "Get feedback on this revision" : "Get feedback"}
+          </button>
+          <span className="text-sm opacity-70">{draft.length} / {MAX_DRAFT_LENGTH}</span>
+        </div>
+        {error && <p className="mt-2 font-medium" aria-live="polite">{error}</p>}
+      </section>
+
+      {piece && shown && (
+        <section className="card mb-3">
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <span className="font-medium">Drafts:</span>
+            {piece.revisions.map((r, i) => (
+              <button key={r.at} onClick={() => { setViewing(i); setCompare(false); }}
+                className={`btn btn-outline ${i === viewing ? "bg-sky-600 text-white" : ""}`} aria-pressed={i === viewing}>
+                {i + 1} · {new Date(r.at).toLocaleDateString()}
+              </button>
+            ))}
+            {before && (
+              <button className="btn btn-outline ml-auto" onClick={() => setCompare(c => !c)} aria-pressed={compare}>
+                {compare ? "Show feedback" : `What changed since draft ${viewing}`}
+              </button>
+            )}
+          </div>
+          {compare && before
+            ? <DiffView before={before.draft} after={shown.draft} lineSpacing={lineSpacing} />
+            : <FeedbackView key={shown.at} revision={shown} before={before} lineSpacing={lineSpacing} dyslexiaAssist={profile.dyslexiaAssist} />}
+        </section>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,91 @@
+import { currentAccessToken } from "./auth";
+import type { ModerationFlag } from "./moderation";
+
+// =============== Tutor function client ===============
+// Relative (same-origin) Netlify Function by default
+const PROXY_URL = import.meta.env.VITE_PROXY_URL || "";
+
+// The signed-in parent's token, when there is one (see netlify/lib/identity.ts)
+async function authHeaders(): Promise<Record<string, string>> {
+  const token = await currentAccessToken().catch(() => null);
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+export async function postTutor(body: Record<string, unknown>, signal?: AbortSignal) {
+  return fetch(`${PROXY_URL}/.netlify/functions/tutor`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+// A 429 from the tutor function, explained for a kid (null for any other response)
+export async function limitMessage(r: Response): Promise<string | null> {
+  if (r.status !== 429) return null;
+  const body = await r.json().catch(() => ({}));
+  const wait = Number(body.retryAfter) || 60;
+  if (body.error === "daily_budget") {
+    return "You’ve done a lot of learning today! The tutor is resting until tomorrow. Maybe review your tricky words or read a book?";
+  }
+  if (body.error === "monthly_budget") {
+    return "The tutor has used up its time for this month. Ask a grown-up to take a look.";
+  }
+  const when = wait < 90 ? `${wait} seconds` : `${Math.ceil(wait / 60)} minutes`;
+  return `Whoa, lots of questions! Let’s take a short breather. Try again in about ${when}.`;
+}
+
+// Spend per child and for the household (budgets are per household), for the parent dashboard
+export interface UsageTotals { requests: number; tokens: number; costUsd: number }
+export interface UsageReport {
+  limits: { perMinute: number; dailyTokens: number; monthlyTokens: number };
+  usage: Record<string, { today: UsageTotals; month: UsageTotals }>;
+  total: { today: UsageTotals; month: UsageTotals };
+}
+export async function getUsage(profileIds: string[]): Promise<UsageReport> {
+  const headers = await authHeaders();
+  if (!headers.Authorization) throw new Error("sign in to the parent account (Parent settings) to see it");
+  const r = await fetch(`${PROXY_URL}/.netlify/functions/tutor?usage=${encodeURIComponent(profileIds.join(","))}`, { headers });
+  if (!r.ok) throw new Error(`usage ${r.status}`);
+  return r.json();
+}
+
+// Events sent by the tutor function when `stream: true` (see sse() in netlify/functions/tutor.ts)
+type StreamEvent =
+  | { delta: string }
+  | { done: true; finish: string }
+  | { error: string }
+  | { flags: ModerationFlag[] }
+  | { flagged: ModerationFlag; message: string };
+
+// `onFlags` gets moderation flags; with a `replacement`, the answer so far was withdrawn
+// and the stream has ended
+export async function readTutorStream(
+  body: ReadableStream<Uint8Array>,
+  onDelta: (delta: string) => void,
+  onFlags: (flags: ModerationFlag[], replacement?: string) => void = () => {}
+) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  let finished = false;
+  for (;;) {
+    const { value, done } = await reader.read();
+    // Without the closing event the connection dropped; the caller keeps what arrived as partial
+    if (done) {
+      if (!finished) throw new Error("the answer broke off");
+      return;
+    }
+    buffered += value;
+    const events = buffered.split("\n\n");
+    buffered = events.pop() ?? "";
+    for (const raw of events) {
+      if (!raw.startsWith("data:")) continue;
+      const event = JSON.parse(raw.slice(5)) as StreamEvent;
+      if ("error" in event) throw new Error(event.error);
+      if ("delta" in event) onDelta(event.delta);
+      if ("done" in event) finished = true;
+      if ("flags" in event) onFlags(event.flags);
+      if ("flagged" in event) { onFlags([event.flagged], event.message); return reader.cancel(); }
+    }
+  }
+}
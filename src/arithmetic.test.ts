@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { checkAnswer, evaluate, findCheckQuestion, forms, rational, type Rational } from "./arithmetic";
+
+const r = (n: number, d = 1) => rational(BigInt(n), BigInt(d)) as Rational;
+
+describe("evaluate", () => {
+  it.each<[string, Rational]>([
+    ["3/5 ÷ 1/2", r(6, 5)],
+    ["1 1/5", r(6, 5)],
+    ["1.2", r(6, 5)],
+    ["2 + 3 × 4", r(14)],
+    ["(2 + 3) × 4", r(20)],
+    ["2^10", r(1024)],
+    ["20% × 50", r(10)],
+    ["12 − 5", r(7)],
+    ["1,000 + 250", r(1250)],
+  ])("%s", (text, value) => {
+    expect(evaluate(text)).toEqual(value);
+  });
+
+  it.each(["", "2 +", "5 ÷ 0", "two"])("can't read %j", (text) => {
+    expect(evaluate(text)).toBeNull();
+  });
+});
+
+describe("findCheckQuestion", () => {
+  it("takes the last sum on a check line", () => {
+    const q = findCheckQuestion("We added 2 + 2 first.\n\n**Your turn:** what is $\\frac{3}{5} \\div \\frac{1}{2}$?");
+    expect(q?.expression).toBe("3/5 ÷ 1/2");
+    expect(q?.answer).toEqual(r(6, 5));
+  });
+
+  it.each(["Can you read pages 12-14 tonight? Check your notes.", "What changed in 1990-2000? Check the timeline."])(
+    "doesn't turn a range into a subtraction: %s",
+    (text) => {
+      expect(findCheckQuestion(text)).toBeNull();
+    },
+  );
+
+  it.each<[string, Rational]>([
+    ["What is 12 - 5?", r(7)],
+    ["What is 12-5?", r(7)],
+    ["Try this: 12-5 = ?", r(7)],
+    ["Check: work out 3-1.", r(2)],
+    ["Your turn: 12−5 is what", r(7)],
+  ])("reads a minus in %s", (text, answer) => {
+    expect(findCheckQuestion(text)?.answer).toEqual(answer);
+  });
+});
+
+describe("checkAnswer", () => {
+  it("accepts any way of writing the number", () => {
+    for (const input of ["6/5", "1 1/5", "1.2", "= 1.2", "six fifths"]) {
+      expect(checkAnswer(r(6, 5), input)).toEqual({ ok: true, correct: true });
+    }
+  });
+
+  it("accepts a rounded repeating decimal, not a wrong one", () => {
+    expect(checkAnswer(r(1, 3), "0.33")).toEqual({ ok: true, correct: true });
+    expect(checkAnswer(r(1, 3), "0.3")).toEqual({ ok: true, correct: false });
+    expect(checkAnswer(r(1, 4), "0.3")).toEqual({ ok: true, correct: false });
+  });
+
+  it("says when it can't read the answer", () => {
+    expect(checkAnswer(r(7), "seven-ish")).toEqual({ ok: false });
+  });
+});
+
+describe("forms", () => {
+  it("lists the ways to write it", () => {
+    expect(forms(r(6, 5))).toEqual(["6/5", "1 1/5", "1.2"]);
+    expect(forms(r(1, 3))).toEqual(["1/3", "about 0.333"]);
+    expect(forms(r(-7))).toEqual(["-7"]);
+  });
+});
@@ -0,0 +1,204 @@
+import { spokenToNotation } from "./mathSpeech";
+
+// =============== Exact arithmetic ===============
+// Checks answers to the tutor's "Check"/"Your turn" questions in the browser, without another
+// model call. Numbers are kept as exact fractions (BigInt), so 6/5, 1 1/5 and 1.2 are one answer.
+
+export interface Rational { n: bigint; d: bigint } // lowest terms, d > 0
+
+function gcd(a: bigint, b: bigint) {
+  a = a < 0n ? -a : a;
+  b = b < 0n ? -b : b;
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+export function rational(n: bigint, d = 1n): Rational | null {
+  if (d === 0n) return null;
+  if (d < 0n) { n = -n; d = -d; }
+  const g = gcd(n, d) || 1n;
+  return { n: n / g, d: d / g };
+}
+const add = (a: Rational, b: Rational) => rational(a.n * b.d + b.n * a.d, a.d * b.d);
+const sub = (a: Rational, b: Rational) => rational(a.n * b.d - b.n * a.d, a.d * b.d);
+const mul = (a: Rational, b: Rational) => rational(a.n * b.n, a.d * b.d);
+const div = (a: Rational, b: Rational) => rational(a.n * b.d, a.d * b.n);
+function pow(a: Rational, b: Rational) {
+  if (b.d !== 1n || b.n > 64n || b.n < -64n) return null; // whole, small exponents only
+  const e = b.n < 0n ? -b.n : b.n;
+  const r = rational(a.n ** e, a.d ** e);
+  return r && b.n < 0n ? div({ n: 1n, d: 1n }, r) : r;
+}
+export const equal = (a: Rational, b: Rational) => a.n === b.n && a.d === b.d;
+
+function decimal(text: string) {
+  const [whole, frac = ""] = text.split(".");
+  return rational(BigInt(whole + frac || "0"), 10n ** BigInt(frac.length));
+}
+
+// ---------- Parsing ----------
+// Numbers: 7, 1.2, .5, 20%, 3/5 (a fraction: binds tighter than ÷), 1 1/5 (mixed).
+// Operators: + - × x * ÷ : / (spaced) ^ and brackets.
+const TOKEN = /\s*(?:(\d+)\s+(\d+)\/(\d+)(?![\d.])|(\d+)\/(\d+)(?![\d.])|(\d*\.\d+|\d+)(%?)|([-+×x*÷:/^()]))/y;
+
+type Tok = { num: Rational } | { op: string };
+
+function tokenize(text: string): Tok[] | null {
+  const toks: Tok[] = [];
+  const s = text.replace(/(\d),(?=\d{3}\b)/g, "$1").replace(/[−–]/g, "-").replace(/\s+$/, "");
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < s.length) {
+    const m = TOKEN.exec(s);
+    if (!m) return null;
+    let num: Rational | null = null;
+    if (m[1]) {
+      const part = rational(BigInt(m[2]), BigInt(m[3]));
+      num = part && add({ n: BigInt(m[1]), d: 1n }, part);
+    } else if (m[4]) num = rational(BigInt(m[4]), BigInt(m[5]));
+    else if (m[6]) {
+      num = decimal(m[6]);
+      if (num && m[7]) num = div(num, { n: 100n, d: 1n });
+    } else {
+      toks.push({ op: m[8] });
+      continue;
+    }
+    if (!num) return null;
+    toks.push({ num });
+  }
+  return toks;
+}
+
+// Recursive descent; any leftover or malformed input gives null
+export function evaluate(text: string): Rational | null {
+  const parsed = tokenize(text);
+  if (!parsed?.length) return null;
+  const toks = parsed;
+  let i = 0;
+  const op = () => { const t = toks[i]; return t && "op" in t ? t.op : null; };
+
+  function expr(): Rational | null {
+    let left = term();
+    while (left && (op() === "+" || op() === "-")) {
+      const o = op(); i++;
+      const right = term();
+      left = right && (o === "+" ? add(left, right) : sub(left, right));
+    }
+    return left;
+  }
+  function term(): Rational | null {
+    let left = unary();
+    while (left && ["×", "x", "*", "÷", ":", "/"].includes(op() ?? "")) {
+      const o = op(); i++;
+      const right = unary();
+      left = right && (o === "÷" || o === ":" || o === "/" ? div(left, right) : mul(left, right));
+    }
+    return left;
+  }
+  function unary(): Rational | null {
+    if (op() === "-") { i++; const v = unary(); return v && rational(-v.n, v.d); }
+    if (op() === "+") { i++; return unary(); }
+    return power();
+  }
+  function power(): Rational | null {
+    const base = primary();
+    if (!base || op() !== "^") return base;
+    i++;
+    const exponent = unary();
+    return exponent && pow(base, exponent);
+  }
+  function primary(): Rational | null {
+    const t = toks[i++];
+    if (!t) return null;
+    if ("num" in t) return t.num;
+    if (t.op !== "(") return null;
+    const inner = expr();
+    if (op() !== ")") return null;
+    i++;
+    return inner;
+  }
+
+  const value = expr();
+  return i === toks.length ? value : null;
+}
+
+// ---------- Check questions ----------
+export interface CheckQuestion {
+  question: string;   // the line it came from (markdown)
+  expression: string; // the arithmetic in it, in plain notation
+  answer: Rational;
+}
+
+// The LaTeX the tutor uses -> plain notation
+function plainMath(text: string) {
+  return text
+    .replace(/\\left|\\right|\\[,;:! ]|\$/g, "")
+    .replace(/(\d+)\s*\\[dt]?frac\s*\{(\d+)\}\s*\{(\d+)\}/g, "$1 $2/$3")
+    .replace(/\\[dt]?frac\s*\{(\d+)\}\s*\{(\d+)\}/g, "$1/$2")
+    .replace(/\\[dt]?frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, "(($1)/($2))")
+    .replace(/\\div/g, "÷")
+    .replace(/\\(?:times|cdot)/g, "×")
+    .replace(/[{}]/g, (b) => (b === "{" ? "(" : ")"))
+    .replace(/\*\*|__/g, "");
+}
+
+const RUN = /[\d(][\d\s.,/()+\-−×÷*^%]*[\d)%]/g;
+const HAS_OPERATOR = /[+\-−×÷*^]|\s\/\s|\)\s*\/|\/\s*\(/;
+const CHECK_LINE = /\?|your turn|check|try this/i;
+// "pages 12-14", "1990-2000": a hyphen between digits is a range, unless the line asks for
+// its value ("What is 12-5?", "12-5 = ?"). Spaced or written as −, it's always a minus.
+const RANGE = /\d-\d/;
+const ASKED_BEFORE = /\b(?:what is|what['’]s|work out|calculate|solve)\s*$/i;
+const ASKED_AFTER = /^\s*=/;
+
+// The last few lines of an answer hold the check question; the last arithmetic in it is the one to solve
+export function findCheckQuestion(markdown: string): CheckQuestion | null {
+  const lines = markdown.split("\n").map(l => l.trim()).filter(Boolean);
+  for (let i = lines.length - 1; i >= Math.max(0, lines.length - 6); i--) {
+    if (!CHECK_LINE.test(lines[i])) continue;
+    const text = plainMath(lines[i]);
+    for (const run of [...text.matchAll(RUN)].reverse()) {
+      const expression = run[0].trim();
+      if (!HAS_OPERATOR.test(expression)) continue;
+      const asked = ASKED_BEFORE.test(text.slice(0, run.index)) || ASKED_AFTER.test(text.slice(run.index + run[0].length));
+      if (RANGE.test(expression) && !asked) continue;
+      const answer = evaluate(expression);
+      if (answer) return { question: lines[i], expression, answer };
+    }
+  }
+  return null;
+}
+
+// ---------- Answers ----------
+const terminates = (r: Rational) => { let d = r.d; while (d % 2n === 0n) d /= 2n; while (d % 5n === 0n) d /= 5n; return d === 1n; };
+
+// `value` rounded to `places` decimals, as an exact decimal
+function rounded(value: Rational, places: number) {
+  const scale = 10n ** BigInt(places);
+  const abs = value.n < 0n ? -value.n : value.n;
+  const n = (2n * abs * scale + value.d) / (2n * value.d);
+  return rational(value.n < 0n ? -n : n, scale);
+}
+
+export type AnswerResult = { ok: true; correct: boolean } | { ok: false }; // ok:false = couldn't read it as a number
+
+// Typed or dictated ("six fifths"). A repeating answer like 1/3 also accepts 0.33 or 0.333.
+export function checkAnswer(expected: Rational, input: string): AnswerResult {
+  const text = spokenToNotation(input).replace(/^\s*=\s*/, "").trim();
+  const value = evaluate(text);
+  if (!value) return { ok: false };
+  if (equal(value, expected)) return { ok: true, correct: true };
+  const places = text.match(/^-?\d*\.(\d{2,})$/)?.[1].length;
+  const near = places !== undefined && !terminates(expected) && equal(value, rounded(expected, places) ?? expected);
+  return { ok: true, correct: !!near };
+}
+
+// 6/5 -> ["6/5", "1 1/5", "1.2"]: the ways to write it, for the "that's right" message
+export function forms(r: Rational): string[] {
+  if (r.d === 1n) return [String(r.n)];
+  const out = [`${r.n}/${r.d}`];
+  const abs = r.n < 0n ? -r.n : r.n;
+  if (abs > r.d) out.push(`${r.n < 0n ? "-" : ""}${abs / r.d} ${abs % r.d}/${r.d}`);
+  const abs3 = (abs * 2000n + r.d) / (2n * r.d); // |r| x 1000, rounded
+  const text = `${r.n < 0n ? "-" : ""}${abs3 / 1000n}.${String(abs3 % 1000n).padStart(3, "0")}`.replace(/\.?0+$/, "");
+  out.push(terminates(r) ? text : `about ${text}`);
+  return out;
+}
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  assignments, dueLabel, progressLabel, recordQuestion, recordTest, startAssignment, type Assignment,
+} from "./assignments";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const NOW = Date.UTC(2026, 9, 19, 15, 0);
+
+// The IndexedDB store, kept in a Map
+const rows = new Map<string, Assignment>();
+vi.spyOn(assignments, "get").mockImplementation(async (id) => rows.get(id as string));
+vi.spyOn(assignments, "put").mockImplementation(async (row) => { rows.set(row.id, row); });
+
+const assignment = (fields: Partial<Assignment>): Assignment => ({
+  id: "a1", profileId: "p1", subject: "math", prompt: "Fractions", target: { kind: "questions", count: 2 },
+  createdAt: NOW, updatedAt: NOW, questions: 0, tests: [], timeMs: 0, sessionIds: [], ...fields,
+});
+
+beforeEach(() => {
+  rows.clear();
+  vi.useFakeTimers({ now: NOW });
+  return () => vi.useRealTimers();
+});
+
+describe("progress", () => {
+  it("counts time between bits of work, but not a long break", async () => {
+    rows.set("a1", assignment({}));
+    await startAssignment("a1");
+    vi.advanceTimersByTime(5 * MINUTE);
+    await recordQuestion("a1", "s1");
+    expect(rows.get("a1")?.timeMs).toBe(5 * MINUTE);
+
+    vi.advanceTimersByTime(2 * 60 * MINUTE);
+    const next = await recordQuestion("a1", "s2");
+    expect(next?.timeMs).toBe(5 * MINUTE);
+    expect(next?.sessionIds).toEqual(["s1", "s2"]);
+  });
+
+  it("completes when the target is reached", async () => {
+    rows.set("a1", assignment({}));
+    expect((await recordQuestion("a1", "s1"))?.completedAt).toBeUndefined();
+    expect((await recordQuestion("a1", "s2"))?.completedAt).toBe(NOW);
+
+    rows.set("a2", assignment({ id: "a2", target: { kind: "test" } }));
+    const tested = await recordTest("a2", "s3", { answers: {}, results: [], score: 4, total: 5, gradedAt: NOW });
+    expect(tested).toMatchObject({ completedAt: NOW, tests: [{ at: NOW, score: 4, total: 5 }], sessionIds: ["s3"] });
+  });
+
+  it("ignores assignments that were deleted", async () => {
+    expect(await recordQuestion("gone", "s1")).toBeNull();
+  });
+});
+
+describe("labels", () => {
+  it("describes progress toward the target", () => {
+    expect(progressLabel(assignment({ questions: 3 }))).toBe("2 of 2 questions");
+    expect(progressLabel(assignment({ target: { kind: "test" } }))).toBe("test not taken yet");
+    expect(progressLabel(assignment({ questions: 1, tests: [{ at: NOW, score: 3, total: 4 }] }))).toBe("1 of 2 questions, test: 3 / 4");
+  });
+
+  it("says when it's due", () => {
+    expect(dueLabel(assignment({}), NOW)).toBe("");
+    expect(dueLabel(assignment({ dueAt: NOW - MINUTE }), NOW)).toBe("overdue");
+    expect(dueLabel(assignment({ dueAt: NOW - MINUTE, completedAt: NOW - DAY }), NOW)).toBe("due today");
+    expect(dueLabel(assignment({ dueAt: NOW + 9 * 60 * MINUTE }), NOW)).toBe("due today");
+    expect(dueLabel(assignment({ dueAt: NOW + DAY + MINUTE }), NOW)).toBe("due tomorrow");
+  });
+});
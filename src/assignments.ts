@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { defineStore } from "./db";
+import { profileRange } from "./sessions";
+import type { TestResult } from "./practiceTest";
+
+// =============== Homework ===============
+// Assignments a parent sets for one profile (behind the PIN, on the dashboard). The child
+// starts one from the "To do" list, which fills in the subject and question; tutor turns and
+// practice tests taken while it is active count toward its target. Kept on this device.
+const TargetSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("questions"), count: z.number().int().min(1).max(50) }),
+  z.object({ kind: z.literal("test") }),
+]);
+const AssignmentSchema = z.object({
+  id: z.string(),
+  profileId: z.string(),
+  subject: z.string(),
+  prompt: z.string(),
+  dueAt: z.number().optional(),   // end of the due day
+  target: TargetSchema,
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  questions: z.number(),          // tutor turns asked while working on it
+  tests: z.array(z.object({ at: z.number(), score: z.number(), total: z.number() })),
+  timeMs: z.number(),
+  lastActiveAt: z.number().optional(),
+  completedAt: z.number().optional(),
+  sessionIds: z.array(z.string()),
+});
+export type AssignmentTarget = z.infer<typeof TargetSchema>;
+export type Assignment = z.infer<typeof AssignmentSchema>;
+
+export const assignments = defineStore({
+  name: "assignments",
+  keyPath: "id",
+  indexes: { by_profile_created: ["profileId", "createdAt"] },
+  schema: AssignmentSchema,
+  version: 8,
+});
+
+// Time between two bits of work counts toward the assignment if it's no longer than this; a
+// longer gap means the child walked away and counts as none (like the sittings in stats.ts)
+const IDLE_GAP = 15 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+// ---------- Queries ----------
+// Open ones first (soonest due first), then finished ones, newest first
+export async function loadAssignments(profileId: string) {
+  const rows = await assignments.all("by_profile_created", profileRange(profileId));
+  const due = (a: Assignment) => a.dueAt ?? Infinity;
+  const open = rows.filter(a => !a.completedAt).sort((a, b) => due(a) - due(b) || a.createdAt - b.createdAt);
+  const done = rows.filter(a => a.completedAt).sort((a, b) => b.completedAt! - a.completedAt!);
+  return [...open, ...done];
+}
+
+export async function createAssignment(entry: { profileId: string; subject: string; prompt: string; dueAt?: number; target: AssignmentTarget }) {
+  const now = Date.now();
+  const row: Assignment = { id: crypto.randomUUID(), ...entry, createdAt: now, updatedAt: now, questions: 0, tests: [], timeMs: 0, sessionIds: [] };
+  await assignments.put(row);
+  return row;
+}
+export async function deleteAssignment(id: string) {
+  await assignments.delete(id);
+}
+
+// ---------- Progress ----------
+const isDone = (a: Assignment) =>
+  a.target.kind === "questions" ? a.questions >= a.target.count : a.tests.length > 0;
+
+async function update(id: string, change: (a: Assignment, now: number) => Assignment) {
+  const row = await assignments.get(id);
+  if (!row) return null;
+  const now = Date.now();
+  const gap = row.lastActiveAt ? now - row.lastActiveAt : 0;
+  const elapsed = gap <= IDLE_GAP ? gap : 0;
+  const next = change({ ...row, timeMs: row.timeMs + elapsed, lastActiveAt: now, updatedAt: now }, now);
+  if (!next.completedAt && isDone(next)) next.completedAt = now;
+  await assignments.put(next);
+  return next;
+}
+
+// Starting (or picking it back up) only starts the clock
+export const startAssignment = (id: string) =>
+  update(id, a => a);
+export const recordQuestion = (id: string, sessionId: string) =>
+  update(id, a => ({ ...a, questions: a.questions + 1, sessionIds: [...a.sessionIds, sessionId] }));
+export const recordTest = (id: string, sessionId: string, result: TestResult) =>
+  update(id, (a, at) => ({
+    ...a,
+    tests: [...a.tests, { at, score: result.score, total: result.total }],
+    sessionIds: a.sessionIds.includes(sessionId) ? a.sessionIds : [...a.sessionIds, sessionId],
+  }));
+
+// ---------- Labels ----------
+export const targetLabel = (t: AssignmentTarget) =>
+  t.kind === "questions" ? `${t.count} question${t.count === 1 ? "" : "s"}` : "a practice test";
+
+export function progressLabel(a: Assignment) {
+  const last = a.tests[a.tests.length - 1];
+  const test = last ? `test: ${last.score} / ${last.total}` : "";
+  if (a.target.kind === "test") return test || "test not taken yet";
+  const asked = `${Math.min(a.questions, a.target.count)} of ${a.target.count} questions`;
+  return test ? `${asked}, ${test}` : asked;
+}
+
+export function dueLabel(a: Assignment, now = Date.now()) {
+  if (!a.dueAt) return "";
+  if (!a.completedAt && a.dueAt < now) return "overdue";
+  const days = Math.floor((a.dueAt - now) / DAY);
+  return days <= 0 ? "due today" : days === 1 ? "due tomorrow" : `due ${new Date(a.dueAt).toLocaleDateString()}`;
+}
@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+
+// =============== Household (parent) account ===============
+// The parent signs in with Supabase Auth; their user id is the household id that
+// scopes every cloud row (see supabase/migrations).
+
+export function useParentSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setSession(data.session));
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => setSession(next));
+    return () => data.subscription.unsubscribe();
+  }, []);
+  return session;
+}
+
+// Current household id, or null when no parent is signed in
+export async function currentHouseholdId() {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+}
+// Sent to the tutor function, which keys budgets and the usage report on the household
+export async function currentAccessToken() {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest";
+import { readBackup } from "./backup";
+import { defaultPrompts } from "./prompts";
+import type { Profile } from "./profiles";
+
+// speech.ts loads DOMPurify, which needs a browser
+vi.mock("./speech", () => ({ DEFAULT_VOICE: { voiceURI: "", rate: 1, pitch: 1 } }));
+// Nothing on this device yet: the IndexedDB reads come back empty
+vi.mock("./sessions", async (importOriginal) => {
+  const real = await importOriginal<typeof import("./sessions")>();
+  return {
+    ...real,
+    profileRange: () => undefined,
+    sessions: { ...real.sessions, all: async () => [], get: async () => undefined },
+  };
+});
+
+const kid: Profile = {
+  id: "p1", name: "Sam", grade: "5", dyslexiaAssist: false, safety: "standard", updatedAt: 1, prompts: defaultPrompts(),
+  prefs: { theme: "light", fontSize: "md", lineSpacing: 1.6, voice: { voiceURI: "", rate: 1, pitch: 1 }, input: "keyboard" },
+};
+const file = (json: unknown) => new File([JSON.stringify(json)], "backup.json");
+
+describe("readBackup", () => {
+  it("restores a profile's JSON export with everything on the rows", async () => {
+    const row = {
+      id: "s1", profileId: "p1", subject: "math", prompt: "Fractions test", response: "", createdAt: 1, updatedAt: 5,
+      misses: ["3/5 ÷ 1/2"], skills: ["5.NF.B.7"], removedNotes: ["wins:nice"],
+      test: { title: "Fractions", questions: [] },
+      testResult: { answers: {}, results: [], score: 3, total: 4, gradedAt: 5 },
+    };
+    const result = await readBackup(file([row]), [kid], "p1");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.plan.sessions).toEqual([row]);
+    expect(result.plan.sessionChanges.added).toBe(1);
+  });
+
+  it("still reads old exports, and gives rows of unknown profiles to the current one", async () => {
+    const result = await readBackup(file([{ profileId: "gone", prompt: "What is a verb?", wins: ["verbs"], createdAt: 7 }]), [kid], "p1");
+    if (!result.ok) throw new Error(result.error);
+    expect(result.plan.sessions).toMatchObject([{ profileId: "p1", subject: "study", prompt: "What is a verb?", wins: ["verbs"], updatedAt: 7 }]);
+  });
+
+  it("counts rows it can't read and rejects files that aren't backups", async () => {
+    const result = await readBackup(file([{ prompt: 42 }]), [kid], "p1");
+    expect(result.ok && result.plan.sessionChanges.invalid).toBe(1);
+    expect(await readBackup(file({ format: "something-else" }), [kid], "p1")).toMatchObject({ ok: false });
+    expect(await readBackup(file({ format: "home-tutor-backup", version: 99 }), [kid], "p1")).toEqual({
+      ok: false, error: "This backup was made by a newer version of the app.",
+    });
+  });
+});
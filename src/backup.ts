@@ -0,0 +1,255 @@
+import { z } from "zod";
+import { ensureDB } from "./db";
+import { STRICTNESS } from "./moderation";
+import { DEFAULT_VOICE } from "./speech";
+import { GRADES, mergeProfiles, loadTombstones, type Profile } from "./profiles";
+import { defaultPrompts, PromptSettingsSchema } from "./prompts";
+import { profileRange, requestSync, sessions, type SessionRecord } from "./sessions";
+import { mergeSession, sameContent } from "./sync";
+
+// =============== Backup / restore ===============
+// A backup is one JSON bundle with every profile (incl. preferences), device settings and
+// all sessions. Restoring validates the file, shows what would change, and only writes after
+// the parent confirms. Rows are merged, never blindly overwritten:
+// - profiles: newer `updatedAt` wins (same rule as cloud sync)
+// - sessions: same id -> merged like a sync conflict; same profile + time + question -> duplicate
+// Session exports for one profile are also available as CSV and Markdown.
+
+const FORMAT = "home-tutor-backup";
+const VERSION = 1;
+
+const ProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().max(100),
+  grade: z.enum(GRADES as [string, ...string[]]),
+  dyslexiaAssist: z.boolean(),
+  safety: z.enum(STRICTNESS).default("standard"), // not in backups made before the content filter setting
+  prefs: z.object({
+    theme: z.enum(["light", "dark", "high-contrast"]),
+    fontSize: z.enum(["sm", "md", "lg", "xl"]),
+    lineSpacing: z.union([z.literal(1.6), z.literal(1.8), z.literal(2.0)]),
+    voice: z.object({
+      voiceURI: z.string(),
+      rate: z.number().min(0.1).max(10),
+      pitch: z.number().min(0).max(2),
+    }).default(DEFAULT_VOICE),
+    input: z.enum(["keyboard", "voice"]).default("keyboard"),
+  }),
+  prompts: PromptSettingsSchema.default(defaultPrompts), // not in backups made before the template editor
+  updatedAt: z.number(),
+});
+const BundleSchema = z.object({
+  format: z.literal(FORMAT),
+  version: z.number().int().min(1).max(VERSION),
+  exportedAt: z.number(),
+  profiles: z.array(ProfileSchema),
+  settings: z.object({ currentProfileId: z.string().optional() }).default({}),
+  sessions: z.array(z.unknown()), // validated row by row so one bad row doesn't sink the file
+});
+// A bare array of session rows: one profile's JSON export (full rows), or an export from
+// before this format (these fields only)
+const LegacyRowSchema = z.object({
+  id: z.string().optional(),
+  profileId: z.string().optional(),
+  subject: z.string().default("study"),
+  prompt: z.string().default(""),
+  response: z.string().default(""),
+  confusingWords: z.array(z.string()).nullish(),
+  wins: z.array(z.string()).nullish(),
+  createdAt: z.number().optional(),
+});
+
+export interface RestorePlan {
+  profiles: Profile[];            // local profiles after the restore
+  profileChanges: { added: number; updated: number };
+  currentProfileId?: string;
+  sessions: SessionRecord[];      // rows to write
+  sessionChanges: { added: number; merged: number; unchanged: number; duplicates: number; invalid: number };
+}
+export type ReadResult = { ok: true; plan: RestorePlan } | { ok: false; error: string };
+
+export function download(filename: string, text: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+}
+const stamp = () => new Date().toISOString().slice(0, 10);
+const fileSafe = (s: string) => s.replace(/[^\p{L}\p{N}_-]+/gu, "-") || "profile";
+
+// ---------- Backup ----------
+export async function exportBackup(profiles: Profile[], currentProfileId: string) {
+  const rows = await sessions.all();
+  const bundle = {
+    format: FORMAT,
+    version: VERSION,
+    exportedAt: Date.now(),
+    profiles,
+    settings: { currentProfileId },
+    sessions: rows.map(r => { const copy = { ...r }; delete copy.pending; return copy; }),
+  };
+  download(`home-tutor-backup-${stamp()}.json`, JSON.stringify(bundle, null, 2), "application/json");
+}
+
+const dedupeKey = (r: SessionRecord) => `${r.profileId}|${r.createdAt}|${r.prompt}`;
+
+// Validate a backup (or an old session export) and work out what restoring it would do.
+// Nothing is written here.
+export async function readBackup(file: File, localProfiles: Profile[], currentProfileId: string): Promise<ReadResult> {
+  let json: unknown;
+  try { json = JSON.parse(await file.text()); }
+  catch { return { ok: false, error: "That file isn’t valid JSON." }; }
+
+  const localIds = new Set(localProfiles.map(p => p.id));
+  let incomingProfiles: Profile[] = [];
+  let rows: unknown[];
+  let parseRow: (raw: unknown) => SessionRecord | null;
+  let settings: { currentProfileId?: string } = {};
+
+  if (Array.isArray(json)) {
+    // They carry profile ids that may not exist here; those rows go to the current profile
+    rows = json;
+    const profileFor = (id?: string) => (id && localIds.has(id) ? id : currentProfileId);
+    parseRow = raw => {
+      // Current rows keep their tests, notes and updatedAt; anything else is read the old way
+      const full = typeof raw === "object" && raw !== null && "updatedAt" in raw ? sessions.read(raw) : undefined;
+      if (full) return { ...full, profileId: profileFor(full.profileId) };
+      const r = LegacyRowSchema.safeParse(raw);
+      if (!r.success) return null;
+      const createdAt = r.data.createdAt ?? Date.now();
+      return {
+        id: r.data.id ?? crypto.randomUUID(),
+        profileId: profileFor(r.data.profileId),
+        subject: r.data.subject, prompt: r.data.prompt, response: r.data.response,
+        confusingWords: r.data.confusingWords ?? undefined, wins: r.data.wins ?? undefined,
+        createdAt, updatedAt: createdAt,
+      };
+    };
+  } else {
+    const bundle = BundleSchema.safeParse(json);
+    if (!bundle.success) {
+      const newer = typeof json === "object" && json !== null && (json as { version?: unknown }).version;
+      return {
+        ok: false,
+        error: typeof newer === "number" && newer > VERSION
+          ? "This backup was made by a newer version of the app."
+          : `This isn’t a Home Tutor backup (${bundle.error.issues[0]?.path.join(".") || "format"}).`,
+      };
+    }
+    incomingProfiles = bundle.data.profiles as Profile[];
+    settings = bundle.data.settings;
+    rows = bundle.data.sessions;
+    parseRow = raw => sessions.read(raw) ?? null;
+  }
+
+  const merged = mergeProfiles(localProfiles, loadTombstones(), incomingProfiles.map(p => ({ profile: p, deleted: false })));
+  const before = new Map(localProfiles.map(p => [p.id, p]));
+  const profileChanges = {
+    added: merged.profiles.filter(p => !before.has(p.id)).length,
+    updated: merged.profiles.filter(p => before.has(p.id) && before.get(p.id) !== p).length,
+  };
+  const knownProfiles = new Set(merged.profiles.map(p => p.id));
+
+  const sessionChanges = { added: 0, merged: 0, unchanged: 0, duplicates: 0, invalid: 0 };
+  const toWrite = new Map<string, SessionRecord>();
+  const seenKeys = new Map<string, Set<string>>(); // per profile: dedupe keys of rows already there
+
+  for (const raw of rows) {
+    const row = parseRow(raw);
+    if (!row || !knownProfiles.has(row.profileId)) { sessionChanges.invalid++; continue; }
+    delete row.pending;
+
+    if (!seenKeys.has(row.profileId)) {
+      const existing = await sessions.all("by_profile_created", profileRange(row.profileId));
+      seenKeys.set(row.profileId, new Set(existing.map(dedupeKey)));
+    }
+    const keys = seenKeys.get(row.profileId)!;
+    const local = toWrite.get(row.id) ?? (await sessions.get(row.id));
+
+    if (!local) {
+      if (keys.has(dedupeKey(row))) { sessionChanges.duplicates++; continue; }
+      keys.add(dedupeKey(row));
+      toWrite.set(row.id, row);
+      sessionChanges.added++;
+      continue;
+    }
+    const next = mergeSession(local, row);
+    if (sameContent(next, local)) { sessionChanges.unchanged++; continue; }
+    toWrite.set(row.id, next);
+    sessionChanges.merged++;
+  }
+
+  return {
+    ok: true,
+    plan: {
+      profiles: merged.profiles,
+      profileChanges,
+      currentProfileId: settings.currentProfileId && knownProfiles.has(settings.currentProfileId) ? settings.currentProfileId : undefined,
+      sessions: [...toWrite.values()],
+      sessionChanges,
+    },
+  };
+}
+
+// Write the sessions of a confirmed plan (profiles are applied by the caller's state).
+// Rows keep their own updatedAt, so a restore doesn't outrank newer edits on other devices.
+export async function applyRestore(plan: RestorePlan) {
+  const db = await ensureDB();
+  const tx = db.transaction(sessions.name, "readwrite");
+  for (const row of plan.sessions) await tx.store.put(sessions.parse({ ...row, pending: 1 }));
+  await tx.done;
+  requestSync();
+}
+
+// ---------- Session exports (one profile) ----------
+export type ExportFormat = "json" | "csv" | "md";
+
+const csvCell = (v: string | number) => {
+  const s = String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function sessionsToCsv(rows: SessionRecord[]) {
+  const header = ["date", "subject", "question", "answer", "tricky_words", "wins", "missed_checks", "skills", "test_score"];
+  const lines = rows.map(r => [
+    new Date(r.createdAt).toISOString(),
+    r.subject,
+    r.prompt,
+    r.response,
+    (r.confusingWords ?? []).join("; "),
+    (r.wins ?? []).join("; "),
+    (r.misses ?? []).join("; "),
+    (r.skills ?? []).join("; "),
+    r.testResult ? `${r.testResult.score}/${r.testResult.total}` : "",
+  ].map(csvCell).join(","));
+  return [header.join(","), ...lines].join("\r\n");
+}
+
+export function sessionsToMarkdown(profileName: string, rows: SessionRecord[]) {
+  const out = [`# Tutor sessions: ${profileName}`, "", `Exported ${new Date().toLocaleDateString()}, ${rows.length} session(s).`];
+  for (const r of rows) {
+    out.push(
+      "",
+      `## ${new Date(r.createdAt).toLocaleString()} • ${r.subject}`,
+      "",
+      `**Question:** ${r.prompt}`,
+      "",
+      r.response,
+    );
+    if (r.testResult) out.push("", `**Test score:** ${r.testResult.score} / ${r.testResult.total}`);
+    if (r.confusingWords?.length) out.push("", `**Tricky words:** ${r.confusingWords.join(", ")}`);
+    if (r.wins?.length) out.push("", `**Wins:** ${r.wins.join(", ")}`);
+    if (r.misses?.length) out.push("", `**Missed checks:** ${r.misses.join(", ")}`);
+    if (r.skills?.length) out.push("", `**Skills:** ${r.skills.join(", ")}`);
+  }
+  return out.join("\n");
+}
+
+export async function exportSessions(profile: { id: string; name: string }, format: ExportFormat) {
+  const rows = (await sessions.all("by_profile_created", profileRange(profile.id))).map(r => { const copy = { ...r }; delete copy.pending; return copy; });
+  const base = `sessions-${fileSafe(profile.name)}-${stamp()}`;
+  if (format === "csv") download(`${base}.csv`, sessionsToCsv(rows), "text/csv");
+  else if (format === "md") download(`${base}.md`, sessionsToMarkdown(profile.name, rows), "text/markdown");
+  else download(`${base}.json`, JSON.stringify(rows, null, 2), "application/json");
+}
@@ -0,0 +1,169 @@
+import { openDB, type IDBPDatabase, type IDBPTransaction } from "idb";
+import type { z } from "zod";
+
+// =============== IndexedDB ===============
+// Feature modules declare their own stores with `defineStore` (key path, indexes, zod
+// schema, and the schema version that last changed them). Opening the database creates
+// any missing stores and indexes, then runs the data migrations newer than the user's
+// version in order. Adding a store is a matter of declaring it with a higher version;
+// reshaping existing rows additionally needs a `defineMigration` step.
+//
+// Version history:
+// 1 sessions   2 threads   3 vocab   4 sessions.by_profile_pending + sessionTombstones
+// 5 moderationLog   6 writingPieces   7 mastery   8 assignments
+// 9 sessionImages   10 outbox
+
+const DB_NAME = "tutor-db";
+
+export type UpgradeTx = IDBPTransaction<unknown, string[], "versionchange">;
+type IndexKeyPath = string | string[];
+
+export interface StoreDef<T> {
+  name: string;
+  keyPath: string;
+  indexes: Record<string, IndexKeyPath>;
+  schema: z.ZodType<T>;
+  version: number; // schema version that created the store or last changed its indexes
+}
+export interface Migration {
+  version: number;
+  description: string;
+  run(tx: UpgradeTx): Promise<void>;
+}
+
+// Position to resume a paged query from (the last row of the previous page)
+export interface PageCursor { key: IDBValidKey; primaryKey: IDBValidKey }
+export interface PageQuery<T> {
+  index?: string;
+  query?: IDBKeyRange;
+  direction?: "next" | "prev";
+  limit: number;
+  after?: PageCursor | null;
+  filter?: (row: T) => boolean; // rows that fail don't count toward `limit`
+}
+
+const stores = new Map<string, StoreDef<unknown>>();
+const migrations: Migration[] = [];
+let connection: Promise<IDBPDatabase> | null = null;
+
+function assertNotOpen(what: string) {
+  if (connection) throw new Error(`${what} must be declared before the database is opened`);
+}
+
+export function dbVersion() {
+  return Math.max(1, ...[...stores.values()].map(s => s.version), ...migrations.map(m => m.version));
+}
+
+export function defineMigration(migration: Migration) {
+  assertNotOpen(`Migration ${migration.version}`);
+  migrations.push(migration);
+}
+
+// Create missing stores and indexes, drop indexes nobody declares any more
+function reconcileStores(db: IDBPDatabase, tx: UpgradeTx) {
+  for (const def of stores.values()) {
+    const store = db.objectStoreNames.contains(def.name)
+      ? tx.objectStore(def.name)
+      : db.createObjectStore(def.name, { keyPath: def.keyPath });
+    for (const [name, keyPath] of Object.entries(def.indexes)) {
+      if (!store.indexNames.contains(name)) store.createIndex(name, keyPath);
+    }
+    for (const name of [...store.indexNames]) {
+      if (!(name in def.indexes)) store.deleteIndex(name);
+    }
+  }
+}
+
+// One shared connection; it steps aside when a newer tab needs to upgrade
+export function ensureDB() {
+  connection ??= openDB(DB_NAME, dbVersion(), {
+    async upgrade(db, oldVersion, _newVersion, tx) {
+      reconcileStores(db, tx as UpgradeTx);
+      const steps = migrations.filter(m => m.version > oldVersion).sort((a, b) => a.version - b.version);
+      for (const step of steps) await step.run(tx as UpgradeTx);
+    },
+    blocking() {
+      connection?.then(db => db.close());
+      connection = null;
+    },
+  });
+  return connection;
+}
+
+// Resume a range just past `after`, in the direction of travel
+function resumeRange(range: IDBKeyRange | undefined, after: IDBValidKey, direction: "next" | "prev") {
+  if (direction === "next") {
+    return range?.upper !== undefined ? IDBKeyRange.bound(after, range.upper, false, range.upperOpen) : IDBKeyRange.lowerBound(after);
+  }
+  return range?.lower !== undefined ? IDBKeyRange.bound(range.lower, after, range.lowerOpen, false) : IDBKeyRange.upperBound(after);
+}
+
+// Typed access to one store. Rows are validated on the way in; rows that no longer
+// match the schema on the way out are skipped (and logged) instead of breaking the view.
+export function defineStore<T>(def: StoreDef<T>) {
+  assertNotOpen(`Store "${def.name}"`);
+  stores.set(def.name, def as StoreDef<unknown>);
+
+  function read(value: unknown): T | undefined {
+    if (value === undefined) return undefined;
+    const parsed = def.schema.safeParse(value);
+    if (!parsed.success) { console.warn(`Skipping invalid ${def.name} row:`, parsed.error.issues); return undefined; }
+    return parsed.data;
+  }
+  const readAll = (values: unknown[]) => values.map(read).filter((v): v is T => v !== undefined);
+
+  return {
+    name: def.name,
+    parse: (value: unknown) => def.schema.parse(value),
+    read,
+    async get(key: IDBValidKey) {
+      const db = await ensureDB();
+      return read(await db.get(def.name, key));
+    },
+    async put(value: T) {
+      const db = await ensureDB();
+      await db.put(def.name, def.schema.parse(value));
+    },
+    async delete(key: IDBValidKey | IDBKeyRange) {
+      const db = await ensureDB();
+      await db.delete(def.name, key);
+    },
+    async all(index?: string, query?: IDBKeyRange | IDBValidKey) {
+      const db = await ensureDB();
+      return readAll(index ? await db.getAllFromIndex(def.name, index, query) : await db.getAll(def.name, query));
+    },
+    async keys(index: string, query?: IDBKeyRange | IDBValidKey) {
+      const db = await ensureDB();
+      return db.getAllKeysFromIndex(def.name, index, query);
+    },
+    async count(index?: string, query?: IDBKeyRange | IDBValidKey) {
+      const db = await ensureDB();
+      return index ? db.countFromIndex(def.name, index, query) : db.count(def.name, query);
+    },
+    // One page of rows in index order, plus where the next page starts (null at the end)
+    async page(q: PageQuery<T>): Promise<{ rows: T[]; next: PageCursor | null }> {
+      const db = await ensureDB();
+      const direction = q.direction ?? "next";
+      const tx = db.transaction(def.name);
+      const source = q.index ? tx.store.index(q.index) : tx.store;
+      const range = q.after ? resumeRange(q.query, q.after.key, direction) : q.query;
+      let cursor = await source.openCursor(range, direction);
+      // Rows sharing the resume key come in primary-key order; skip the ones already returned
+      while (cursor && q.after && indexedDB.cmp(cursor.key, q.after.key) === 0
+        && indexedDB.cmp(cursor.primaryKey, q.after.primaryKey) * (direction === "next" ? 1 : -1) <= 0) {
+        cursor = await cursor.continue();
+      }
+      const rows: T[] = [];
+      let last: PageCursor | null = null;
+      while (cursor && rows.length < q.limit) {
+        const row = read(cursor.value);
+        if (row !== undefined && (!q.filter || q.filter(row))) rows.push(row);
+        last = { key: cursor.key, primaryKey: cursor.primaryKey };
+        cursor = await cursor.continue();
+      }
+      await tx.done;
+      return { rows, next: cursor ? last : null };
+    },
+  };
+}
+export type Store<T> = ReturnType<typeof defineStore<T>>;
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { spokenToNotation } from "./mathSpeech";
+
+// =============== Dictation ===============
+// Push-to-talk speech recognition (Chrome, Edge and Safari; prefixed in most of them).
+// Finished phrases come back with spoken math turned into notation, for the child to check before asking.
+
+// The parts of the Web Speech recognition API used here (TypeScript's DOM types don't include it)
+interface Recognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((e: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((e: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+type RecognitionConstructor = new () => Recognition;
+
+function recognitionClass(): RecognitionConstructor | undefined {
+  if (typeof window === "undefined") return undefined;
+  const w = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition;
+}
+export const dictationSupported = () => !!recognitionClass();
+
+const ERRORS: Record<string, string> = {
+  "not-allowed": "The microphone is blocked. Ask a grown-up to allow it, or type instead.",
+  "service-not-allowed": "The microphone is blocked. Ask a grown-up to allow it, or type instead.",
+  "audio-capture": "No microphone was found. You can type instead.",
+  "no-speech": "I didn't hear anything. Hold the button and try again.",
+  network: "Voice typing needs the internet. You can type instead.",
+};
+
+export function useDictation(onText: (text: string) => void) {
+  const [listening, setListening] = useState(false);
+  const [interim, setInterim] = useState(""); // the words still being recognized
+  const [error, setError] = useState<string | null>(null);
+  const recRef = useRef<Recognition | null>(null);
+  const onTextRef = useRef(onText);
+  useEffect(() => { onTextRef.current = onText; });
+  useEffect(() => () => recRef.current?.abort(), []);
+
+  const start = useCallback(() => {
+    const Rec = recognitionClass();
+    if (!Rec || recRef.current) return;
+    const rec = new Rec();
+    rec.continuous = true;
+    rec.interimResults = true;
+    rec.lang = navigator.language || "en-US";
+    rec.onresult = e => {
+      let pending = "";
+      for (let i = e.resultIndex; i < e.results.length; i++) {
+        const text = e.results[i][0].transcript;
+        if (e.results[i].isFinal) { if (text.trim()) onTextRef.current(spokenToNotation(text.trim())); }
+        else pending += text;
+      }
+      setInterim(pending);
+    };
+    rec.onerror = e => { if (e.error !== "aborted") setError(ERRORS[e.error] ?? "Voice typing stopped. You can type instead."); };
+    rec.onend = () => { recRef.current = null; setListening(false); setInterim(""); };
+    recRef.current = rec;
+    setError(null);
+    setListening(true);
+    try { rec.start(); }
+    catch { recRef.current = null; setListening(false); }
+  }, []);
+
+  // stop() (not abort) so the last words still arrive as a final result
+  const stop = useCallback(() => recRef.current?.stop(), []);
+
+  return { listening, interim, error, start, stop };
+}
@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { defineStore } from "./db";
+
+// =============== Worksheet photos ===============
+// Photos are cropped, scaled down and re-encoded as JPEG in the browser before they are sent,
+// so a phone camera shot becomes ~200 KB instead of several MB. The photos sent with a tutor
+// turn are kept next to the session (not in the row itself, which syncs to the cloud), and
+// the oldest are dropped once a profile's photos pass STORAGE_LIMIT.
+export const MAX_IMAGES = 2;
+const MAX_SIDE = 1600;                    // px, longest side after scaling
+const MAX_BYTES = 1_000_000;              // per photo, matches the tutor function's cap
+const QUALITIES = [0.82, 0.7, 0.55, 0.4]; // tried in turn until the photo fits
+const STORAGE_LIMIT = 30 * 1024 * 1024;   // per profile
+
+export const ImageSchema = z.object({
+  mediaType: z.enum(["image/jpeg", "image/png", "image/webp"]),
+  data: z.string(), // base64, no data: prefix
+});
+const SessionImagesSchema = z.object({
+  id: z.string(), // session id
+  profileId: z.string(),
+  createdAt: z.number(),
+  images: z.array(ImageSchema),
+});
+export type TutorImage = z.infer<typeof ImageSchema>;
+type SessionImages = z.infer<typeof SessionImagesSchema>;
+
+export const sessionImages = defineStore({
+  name: "sessionImages",
+  keyPath: "id",
+  indexes: { by_profile_created: ["profileId", "createdAt"] },
+  schema: SessionImagesSchema,
+  version: 9,
+});
+
+export const dataUrl = (img: TutorImage) => `data:${img.mediaType};base64,${img.data}`;
+const bytesOf = (img: TutorImage) => Math.floor((img.data.length * 3) / 4);
+
+// ---------- Preparing ----------
+// Part of the photo to keep, as fractions of its width and height
+export interface Crop { x: number; y: number; w: number; h: number }
+export const FULL_CROP: Crop = { x: 0, y: 0, w: 1, h: 1 };
+
+export type PrepareResult = { ok: true; image: TutorImage } | { ok: false; message: string };
+
+function toBlob(canvas: HTMLCanvasElement, quality: number) {
+  return new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/jpeg", quality));
+}
+function toBase64(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ""));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export async function prepareImage(file: Blob, crop: Crop = FULL_CROP): Promise<PrepareResult> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" }); // phones store rotation in EXIF
+  } catch {
+    return { ok: false, message: "That file doesn’t look like a picture. Try a photo (JPEG or PNG)." };
+  }
+  const sx = Math.round(crop.x * bitmap.width), sy = Math.round(crop.y * bitmap.height);
+  const sw = Math.max(1, Math.round(crop.w * bitmap.width)), sh = Math.max(1, Math.round(crop.h * bitmap.height));
+  const scale = Math.min(1, MAX_SIDE / Math.max(sw, sh));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return { ok: false, message: "Couldn’t read that picture." };
+  ctx.fillStyle = "#fff"; // transparent PNGs would turn black as JPEG
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  for (const quality of QUALITIES) {
+    const blob = await toBlob(canvas, quality);
+    if (blob && blob.size <= MAX_BYTES) return { ok: true, image: { mediaType: "image/jpeg", data: await toBase64(blob) } };
+  }
+  return { ok: false, message: "That picture is too big. Try cropping to just the problem." };
+}
+
+// ---------- Storage ----------
+export async function saveSessionImages(sessionId: string, profileId: string, images: TutorImage[]) {
+  if (!images.length) return;
+  await sessionImages.put({ id: sessionId, profileId, createdAt: Date.now(), images });
+  await prune(profileId);
+}
+export async function loadSessionImages(sessionId: string) {
+  return (await sessionImages.get(sessionId))?.images ?? [];
+}
+
+const profileRows = (profileId: string) =>
+  sessionImages.all("by_profile_created", IDBKeyRange.bound([profileId, -Infinity], [profileId, Infinity]));
+
+// Oldest photos go first once the profile is over its share of storage
+async function prune(profileId: string) {
+  const rows = await profileRows(profileId);
+  const size = (r: SessionImages) => r.images.reduce((n, img) => n + bytesOf(img), 0);
+  let total = rows.reduce((n, r) => n + size(r), 0);
+  for (const r of rows) {
+    if (total <= STORAGE_LIMIT) break;
+    await sessionImages.delete(r.id);
+    total -= size(r);
+  }
+}
+
+export async function clearSessionImages(profileId?: string) {
+  const rows = profileId ? await profileRows(profileId) : await sessionImages.all();
+  for (const r of rows) await sessionImages.delete(r.id);
+}
@@ -1,10 +1,16 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { migrateLegacyProfileIds } from './profiles'
 import './index.css'     // <— make sure this line exists
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
+// Profile ids must be final before App reads profiles or IndexedDB
+migrateLegacyProfileIds()
+  .catch(e => console.warn('Profile id migration failed:', e))
+  .finally(() => {
+    ReactDOM.createRoot(document.getElementById('root')!).render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>,
+    )
+  })
@@ -0,0 +1,46 @@
+import { marked } from "marked";
+import DOMPurify from "dompurify";
+import markedKatex from "marked-katex-extension";
+import "katex/dist/katex.min.css";
+import { verbalizeMath } from "./mathSpeech";
+
+// KaTeX for inline $...$ and block $$...$$
+marked.use(markedKatex({ throwOnError: false }));
+
+// Each rendered formula is labelled with its spoken form, so screen readers announce
+// "three fifths" instead of spelling out the KaTeX markup (role=img hides the parts)
+DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+  if (!(node instanceof Element) || !node.classList.contains("katex")) return;
+  const tex = node.querySelector("annotation")?.textContent;
+  if (!tex) return;
+  node.setAttribute("role", "img");
+  node.setAttribute("aria-label", verbalizeMath(tex));
+});
+
+// -------- keep THIS normalizeMath exactly as requested --------
+export function normalizeMath(input: string) {
+  let s = input;
+
+  // Convert \( ... \) and \[ ... \] to $...$ / $$...$$ if they appear
+  s = s.replace(/\\\(([\s\S]*?)\\\)/g, (_, m) => `$${m}$`);
+  s = s.replace(/\\\[([\s\S]*?)\\\]/g, (_, m) => `$$${m}$$`);
+
+  // Wrap plain parentheses that contain LaTeX commands like \frac, \sqrt, \times, \div, \cdot
+  // Example: ( \frac{2}{3} )  ->  $\frac{2}{3}$
+  s = s.replace(/\(\s*\\(frac|sqrt|times|div|cdot|sum|prod|int)[^)]*\)/g, (m) => {
+    const inner = m.slice(1, -1).trim(); // drop outer ( )
+    return `$${inner}$`;
+  });
+
+  return s;
+}
+
+// Markdown + KaTeX -> sanitized HTML, for dangerouslySetInnerHTML
+export function renderMarkdown(text: string) {
+  return DOMPurify.sanitize(marked.parse(normalizeMath(text)) as string);
+}
+
+// Same, without the wrapping <p> (choices, short labels)
+export function renderInlineMarkdown(text: string) {
+  return DOMPurify.sanitize(marked.parseInline(normalizeMath(text)) as string);
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from "vitest";
+import { masteryLabel, updateP } from "./mastery";
+
+// speech.ts (through profiles.ts) loads DOMPurify, which needs a browser
+vi.mock("./speech", () => ({ DEFAULT_VOICE: { voiceURI: "", rate: 1, pitch: 1 } }));
+
+describe("updateP", () => {
+  it("moves up after a right answer and down after a wrong one", () => {
+    expect(updateP(0.3, true)).toBeCloseTo(0.7098, 4);
+    expect(updateP(0.3, false)).toBeCloseTo(0.1932, 4);
+  });
+
+  it("needs a run of right answers to reach mastered, and a slip sets it back", () => {
+    let p = 0.3;
+    const steps: string[] = [];
+    for (let i = 0; i < 3; i++) steps.push(masteryLabel((p = updateP(p, true))));
+    expect(steps).toEqual(["Almost there", "Almost there", "Mastered"]);
+    expect(masteryLabel(updateP(updateP(updateP(0.3, true), true), false))).toBe("Practicing");
+  });
+
+  it("stays between 0 and 1", () => {
+    for (const p of [0, 1]) {
+      for (const correct of [true, false]) {
+        const next = updateP(p, correct);
+        expect(next).toBeGreaterThanOrEqual(0);
+        expect(next).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+});
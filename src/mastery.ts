@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { defineStore } from "./db";
+import { profileRange } from "./sessions";
+import { skillByCode, type Skill } from "./skills";
+
+// =============== Skill mastery ===============
+// Per profile and skill, the chance the child has the skill (Bayesian knowledge tracing):
+// every graded test question and checked answer tagged with the skill moves it up or down.
+// Kept on this device, like the writing coach.
+const MasterySchema = z.object({
+  id: z.string(), // `${profileId}:${skill}`
+  profileId: z.string(),
+  skill: z.string(),
+  p: z.number().min(0).max(1),
+  attempts: z.number(),
+  correct: z.number(),
+  updatedAt: z.number(),
+});
+export type Mastery = z.infer<typeof MasterySchema>;
+
+export const mastery = defineStore({
+  name: "mastery",
+  keyPath: "id",
+  indexes: { by_profile_updated: ["profileId", "updatedAt"] },
+  schema: MasterySchema,
+  version: 7,
+});
+
+// Knowledge tracing parameters: prior, slip (knows it, answers wrong), guess (doesn't, answers
+// right) and the chance of learning it from one practice attempt
+const PRIOR = 0.3;
+const SLIP = 0.1;
+const GUESS = 0.2;
+const LEARN = 0.15;
+
+export function updateP(p: number, correct: boolean) {
+  const known = correct
+    ? (p * (1 - SLIP)) / (p * (1 - SLIP) + (1 - p) * GUESS)
+    : (p * SLIP) / (p * SLIP + (1 - p) * (1 - GUESS));
+  return known + (1 - known) * LEARN;
+}
+
+export const MASTERY_LEVELS = [
+  { min: 0.95, label: "Mastered" },
+  { min: 0.7, label: "Almost there" },
+  { min: 0.4, label: "Practicing" },
+  { min: 0, label: "Needs work" },
+] as const;
+export const masteryLabel = (p: number) => MASTERY_LEVELS.find(l => p >= l.min)!.label;
+
+// ---------- Records ----------
+export interface Attempt { skill: string; correct: boolean }
+
+export async function recordAttempts(profileId: string, attempts: Attempt[]) {
+  const now = Date.now();
+  const touched = new Map<string, Mastery>();
+  for (const a of attempts) {
+    const id = `${profileId}:${a.skill}`;
+    const row = touched.get(id) ?? await mastery.get(id)
+      ?? { id, profileId, skill: a.skill, p: PRIOR, attempts: 0, correct: 0, updatedAt: now };
+    touched.set(id, {
+      ...row,
+      p: updateP(row.p, a.correct),
+      attempts: row.attempts + 1,
+      correct: row.correct + (a.correct ? 1 : 0),
+      updatedAt: now,
+    });
+  }
+  for (const row of touched.values()) await mastery.put(row);
+}
+
+// Skills this profile has practiced, weakest first; codes no longer in the catalog are left out
+export async function loadMastery(profileId: string): Promise<(Mastery & { info: Skill })[]> {
+  const rows = await mastery.all("by_profile_updated", profileRange(profileId));
+  return rows
+    .flatMap(r => { const info = skillByCode(r.skill); return info ? [{ ...r, info }] : []; })
+    .sort((a, b) => a.p - b.p);
+}
+
+export async function clearMastery(profileId: string) {
+  for (const r of await mastery.all("by_profile_updated", profileRange(profileId))) await mastery.delete(r.id);
+}
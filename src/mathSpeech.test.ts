@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { spokenToNotation, verbalizeMath } from "./mathSpeech";
+
+// [LaTeX, what read-aloud should say]
+const SPOKEN: [string, string][] = [
+  // fractions
+  ["\\frac{3}{5}", "three fifths"],
+  ["\\frac{1}{2}", "one half"],
+  ["\\dfrac{7}{12}", "seven twelfths"],
+  ["\\frac{3}{5} \\div \\frac{1}{2}", "three fifths divided by one half"],
+  ["\\frac{x}{y}", "x over y"],
+  ["\\frac{x+1}{2}", "the fraction x plus 1 over 2"],
+  ["\\frac{150}{7}", "150 over 7"],
+  // mixed numbers
+  ["2\\frac{1}{3}", "two and one third"],
+  ["3\\frac{3}{4} + 1\\frac{1}{2}", "three and three fourths plus one and one half"],
+  // powers
+  ["x^2", "x squared"],
+  ["5^3", "5 cubed"],
+  ["2^{10}", "2 to the power of 10"],
+  ["a^{n+1}", "a to the power of n plus 1"],
+  ["90^\\circ", "90 degrees"],
+  // roots
+  ["\\sqrt{16}", "the square root of 16"],
+  ["\\sqrt[3]{27}", "the cube root of 27"],
+  ["\\sqrt{x+4}", "the square root of x plus 4"],
+  // operators
+  ["12 \\div 4 = 3", "12 divided by 4 equals 3"],
+  ["6 \\times 7", "6 times 7"],
+  ["-3 + 5", "negative 3 plus 5"],
+  ["x \\le 4", "x is less than or equal to 4"],
+  ["2(x + 3)", "2, x plus 3"],
+  // thousands separators and decimals
+  ["1{,}000", "1000"],
+  ["12{,}345{,}678", "12345678"],
+  ["1,000 + 250", "1000 plus 250"],
+  ["3.75", "3.75"],
+  // text and names
+  ["\\pi r^2", "pi r squared"],
+  ["5 \\text{ cm}", "5 cm"],
+];
+
+// [what the child said, what goes in the question box]
+const DICTATED: [string, string][] = [
+  ["three fifths divided by one half", "3/5 ÷ 1/2"],
+  ["two and one third", "2 1/3"],
+  ["seven plus eight", "7 + 8"],
+  ["twenty five times four", "25 × 4"],
+  ["x squared plus nine", "x² + 9"],
+  ["the square root of sixteen", "√16"],
+  ["two to the power of five", "2^5"],
+  ["fifty percent of eighty", "50% of eighty"],
+  ["12 divided by 4 equals 3", "12 ÷ 4 = 3"],
+  ["I have one question", "I have one question"],
+];
+
+describe("verbalizeMath", () => {
+  it.each(SPOKEN)("%s", (tex, words) => {
+    expect(verbalizeMath(tex)).toBe(words);
+  });
+});
+
+describe("spokenToNotation", () => {
+  it.each(DICTATED)("%s", (spoken, notation) => {
+    expect(spokenToNotation(spoken)).toBe(notation);
+  });
+});
@@ -0,0 +1,274 @@
+// =============== Spoken math ===============
+// Turns the LaTeX the tutor writes into plain spoken English for read-aloud and for the
+// accessible label on rendered formulas: "\frac{3}{5} \div \frac{1}{2}" -> "three fifths
+// divided by one half". Covers the school subset: fractions and mixed numbers, exponents,
+// roots, the arithmetic operators, (in)equalities, Greek letters and \text{}.
+// Brackets become short pauses (commas) rather than "open parenthesis".
+
+const ONES = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen"];
+const TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const ORDINAL_ONES: Record<number, string> = {
+  1: "first", 2: "second", 3: "third", 4: "fourth", 5: "fifth", 6: "sixth", 7: "seventh", 8: "eighth", 9: "ninth",
+  10: "tenth", 11: "eleventh", 12: "twelfth", 13: "thirteenth", 14: "fourteenth", 15: "fifteenth",
+  16: "sixteenth", 17: "seventeenth", 18: "eighteenth", 19: "nineteenth",
+};
+
+// 0-99 in words (larger numbers are left as digits; voices read those fine)
+export function cardinal(n: number): string {
+  if (!Number.isInteger(n) || n < 0 || n > 99) return String(n);
+  if (n < 20) return ONES[n];
+  return TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : "");
+}
+// 1-100 ("third", "twenty-fifth", "hundredth"); null beyond that
+export function ordinal(n: number): string | null {
+  if (!Number.isInteger(n) || n < 1 || n > 100) return null;
+  if (n === 100) return "hundredth";
+  if (n < 20) return ORDINAL_ONES[n];
+  const tens = TENS[Math.floor(n / 10)];
+  return n % 10 ? `${tens}-${ORDINAL_ONES[n % 10]}` : `${tens.slice(0, -1)}ieth`;
+}
+
+// "three fifths", "one half", "seven twelfths"; null when it should be read as "a over b"
+export function fractionWords(numerator: number, denominator: number): string | null {
+  if (numerator > 99 || denominator < 2) return null;
+  if (denominator === 2) return `${cardinal(numerator)} ${numerator === 1 ? "half" : "halves"}`;
+  const name = ordinal(denominator);
+  if (!name) return null;
+  return `${cardinal(numerator)} ${name}${numerator === 1 ? "" : "s"}`;
+}
+
+// ---------- Tokens ----------
+type Token = { kind: "cmd" | "num" | "text" | "sym"; value: string };
+
+// \text{...} keeps its spaces, so it is one token
+const TOKEN = /\\(?:text|mathrm|textbf|mathbf|textit|operatorname)\s*\{([^{}]*)\}|\\[a-zA-Z]+|\\[^a-zA-Z]|\d+(?:[.,]\d+)*|\S/g;
+const IGNORED = new Set(["\\left", "\\right", "\\big", "\\Big", "\\bigg", "\\displaystyle", "\\,", "\\;", "\\:", "\\!", "\\ ", "\\quad", "\\qquad", "\\\\"]);
+
+function tokenize(tex: string): Token[] {
+  const tokens: Token[] = [];
+  // 1{,}000 is how LaTeX writes a thousands separator without the space after a comma
+  for (const m of tex.replace(/(\d)\{,\}(?=\d)/g, "$1,").matchAll(TOKEN)) {
+    const value = m[0];
+    if (IGNORED.has(value)) continue;
+    if (m[1] !== undefined) tokens.push({ kind: "text", value: m[1].trim() });
+    else if (value.startsWith("\\")) tokens.push({ kind: "cmd", value });
+    else if (/^\d/.test(value)) tokens.push({ kind: "num", value });
+    else tokens.push({ kind: "sym", value });
+  }
+  return tokens;
+}
+
+// ---------- Vocabulary ----------
+const OPERATORS: Record<string, string> = {
+  "+": "plus", "-": "minus", "−": "minus", "*": "times", "×": "times", "÷": "divided by", "/": "divided by",
+  "=": "equals", "<": "is less than", ">": "is greater than", "≤": "is less than or equal to", "≥": "is greater than or equal to",
+  "\\times": "times", "\\cdot": "times", "\\div": "divided by", "\\pm": "plus or minus", "\\mp": "minus or plus",
+  "\\ne": "is not equal to", "\\neq": "is not equal to", "\\le": "is less than or equal to", "\\leq": "is less than or equal to",
+  "\\ge": "is greater than or equal to", "\\geq": "is greater than or equal to", "\\approx": "is about",
+  "\\lt": "is less than", "\\gt": "is greater than", "\\to": "goes to", "\\rightarrow": "goes to", "\\Rightarrow": "so",
+};
+const NAMES: Record<string, string> = {
+  "\\pi": "pi", "\\theta": "theta", "\\alpha": "alpha", "\\beta": "beta", "\\gamma": "gamma", "\\delta": "delta",
+  "\\Delta": "delta", "\\lambda": "lambda", "\\mu": "mu", "\\sigma": "sigma", "\\phi": "phi", "\\omega": "omega",
+  "\\infty": "infinity", "\\%": "percent", "%": "percent", "\\degree": "degrees", "\\circ": "degrees",
+  "\\ldots": "and so on", "\\dots": "and so on", "\\cdots": "and so on",
+  "\\sin": "sine", "\\cos": "cosine", "\\tan": "tangent", "\\log": "log", "\\ln": "natural log",
+  "\\angle": "angle", "\\triangle": "triangle", "\\perp": "is perpendicular to", "\\parallel": "is parallel to",
+  "\\$": "dollars", "$": "dollars",
+};
+const OPENERS: Record<string, string> = { "(": ")", "[": "]", "\\{": "\\}", "\\lbrace": "\\rbrace" };
+
+// A parsed piece: its words, plus the integer value when it is just a whole number
+type Piece = { words: string[]; int?: number };
+
+function parse(tokens: Token[]): string[] {
+  let i = 0;
+  const peek = () => tokens[i];
+
+  function sequence(closer?: string): string[] {
+    const out: string[] = [];
+    let afterOperand = false;
+    while (i < tokens.length && peek().value !== closer) {
+      const t = peek();
+      if (t.value === "}" || t.value === "]" || t.value === ")") { i++; continue; } // stray closer
+      if (t.kind !== "num" && OPERATORS[t.value]) {
+        i++;
+        const unaryMinus = (t.value === "-" || t.value === "−") && !afterOperand;
+        out.push(unaryMinus ? "negative" : OPERATORS[t.value]);
+        afterOperand = false;
+        continue;
+      }
+      if (t.value === ",") { i++; out.push(","); afterOperand = false; continue; }
+      out.push(...postfix(atom()).words);
+      afterOperand = true;
+    }
+    return out;
+  }
+
+  // A braced group or a single atom (arguments of \frac, \sqrt, ^ and _)
+  function argument(): Piece {
+    if (peek()?.value !== "{") return atom();
+    i++;
+    const start = i;
+    const words = sequence("}");
+    const only = i - start === 1 && tokens[start].kind === "num" ? tokens[start].value : undefined;
+    i++; // }
+    return { words, int: only !== undefined && /^\d+$/.test(only) ? Number(only) : undefined };
+  }
+
+  function fraction(): Piece & { spokenAsWords: boolean } {
+    const top = argument();
+    const bottom = argument();
+    if (top.int !== undefined && bottom.int !== undefined) {
+      const words = fractionWords(top.int, bottom.int);
+      if (words) return { words: [words], spokenAsWords: true };
+    }
+    const simple = top.words.length === 1 && bottom.words.length === 1;
+    const words = simple ? [...top.words, "over", ...bottom.words] : ["the fraction", ...top.words, "over", ...bottom.words, ","];
+    return { words, spokenAsWords: false };
+  }
+
+  function atom(): Piece {
+    const t = tokens[i++];
+    if (!t) return { words: [] };
+    if (t.kind === "num") {
+      const int = /^\d+$/.test(t.value) ? Number(t.value) : undefined;
+      // 2\frac{1}{3} is a mixed number: "two and one third"
+      if (int !== undefined && /^\\[dt]?frac$/.test(peek()?.value ?? "")) {
+        i++;
+        const part = fraction();
+        return { words: part.spokenAsWords ? [cardinal(int), "and", ...part.words] : [t.value, "times", ...part.words] };
+      }
+      return { words: [t.value.replace(/,/g, "")], int };
+    }
+    if (t.kind === "text") return { words: t.value ? [t.value] : [] };
+    if (t.value === "{") {
+      const words = sequence("}");
+      i++;
+      return { words };
+    }
+    if (OPENERS[t.value]) {
+      const words = sequence(OPENERS[t.value]);
+      i++;
+      return { words: [",", ...words, ","] };
+    }
+    if (/^\\[dt]?frac$/.test(t.value)) return fraction();
+    if (t.value === "\\sqrt") {
+      let index: number | undefined;
+      if (peek()?.value === "[") {
+        i++;
+        const n = sequence("]");
+        i++;
+        index = Number(n.join(""));
+      }
+      const radicand = argument();
+      const root = index === undefined || index === 2 ? "square" : index === 3 ? "cube" : ordinal(index) ?? `${index}th`;
+      return { words: [`the ${root} root of`, ...radicand.words, ...(radicand.words.length > 1 ? [","] : [])] };
+    }
+    if (t.value === "|") {
+      const words = sequence("|");
+      i++;
+      return { words: ["the absolute value of", ...words, ","] };
+    }
+    if (NAMES[t.value]) return { words: [NAMES[t.value]] };
+    if (t.kind === "cmd") return { words: [t.value.slice(1)] };
+    return { words: [t.value] };
+  }
+
+  // Exponents, subscripts, factorial and primes after an atom
+  function postfix(base: Piece): Piece {
+    const words = [...base.words];
+    for (;;) {
+      const t = peek();
+      if (t?.value === "^") {
+        i++;
+        if (peek()?.value === "\\circ" || (peek()?.value === "{" && tokens[i + 1]?.value === "\\circ")) {
+          argument();
+          words.push("degrees");
+          continue;
+        }
+        const power = argument();
+        if (power.int === 2) words.push("squared");
+        else if (power.int === 3) words.push("cubed");
+        else words.push("to the power of", ...power.words, ...(power.words.length > 1 ? [","] : []));
+      } else if (t?.value === "_") {
+        i++;
+        words.push("sub", ...argument().words);
+      } else if (t?.value === "!") {
+        i++;
+        words.push("factorial");
+      } else if (t?.value === "'") {
+        i++;
+        words.push("prime");
+      } else {
+        return { words };
+      }
+    }
+  }
+
+  return sequence();
+}
+
+// LaTeX (without the $ delimiters) -> words
+export function verbalizeMath(tex: string): string {
+  const words = parse(tokenize(tex));
+  return words
+    .join(" ")
+    .replace(/(\s*,)+/g, ",") // pauses: no doubles, no space before
+    .replace(/^,\s*|,\s*$/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// =============== Dictation: words -> notation ===============
+// The other direction, for questions asked out loud: "three fifths divided by one half" -> "3/5 ÷ 1/2".
+// Only number-like words next to math words change, so "I have one question" stays as it is.
+
+const NUMBER_WORDS = `(?:(?:${TENS.slice(2).join("|")})(?:[ -](?:${ONES.slice(1, 10).join("|")}))?|${ONES.join("|")})`;
+const NUMBER = `(?:\\d+(?:\\.\\d+)?|\\b${NUMBER_WORDS}\\b)`;
+// Digits, fractions, single-letter variables (not "a" or "I"), with an optional root sign or power
+const OPERAND = `(?:√?(?:\\d+(?:[./]\\d+)?|\\b${NUMBER_WORDS}\\b|\\b[b-hj-z]\\b)[²³]?)`;
+
+// "fifths" -> 5; "second" is left out, it is far more often about time
+const DENOMINATORS: Record<string, number> = { half: 2, halves: 2, quarter: 4, quarters: 4 };
+for (let n = 3; n <= 100; n++) {
+  const name = ordinal(n) as string;
+  DENOMINATORS[name] = n;
+  DENOMINATORS[`${name}s`] = n;
+}
+const DENOMINATOR = `(?:${Object.keys(DENOMINATORS).sort((a, b) => b.length - a.length).join("|")})`;
+
+const SPOKEN_OPERATORS: [string, string][] = [
+  ["is less than or equal to", "≤"], ["is greater than or equal to", "≥"], ["is less than", "<"], ["is greater than", ">"],
+  ["is equal to", "="], ["equals", "="], ["divided by", "÷"], ["multiplied by", "×"], ["times", "×"],
+  ["plus", "+"], ["minus", "-"], ["over", "/"], ["to the power of", "^"],
+];
+const TIGHT = new Set(["/", "^"]); // written without spaces: 3/4, 2^5
+
+// "twenty five" / "twenty-five" / "7" -> 25 / 25 / 7
+function toNumber(words: string) {
+  if (/^\d/.test(words)) return words;
+  return String(words.toLowerCase().split(/[ -]/).reduce((sum, w) => sum + Math.max(ONES.indexOf(w), TENS.indexOf(w) * 10, 0), 0));
+}
+
+export function spokenToNotation(text: string) {
+  let s = text;
+  // Fractions and mixed numbers: "two and one third" -> "2 1/3"
+  s = s.replace(new RegExp(`${NUMBER} (${DENOMINATOR})\\b`, "gi"), (m, d: string) =>
+    `${toNumber(m.slice(0, -d.length - 1))}/${DENOMINATORS[d.toLowerCase()]}`);
+  s = s.replace(new RegExp(`(${NUMBER}) and (\\d+/\\d+)`, "gi"), (_, n: string, f: string) => `${toNumber(n)} ${f}`);
+  // Roots and powers attach to their operand
+  s = s.replace(new RegExp(`\\b(?:the )?square root of (${OPERAND})`, "gi"), "√$1");
+  s = s.replace(new RegExp(`(${OPERAND}) squared\\b`, "gi"), "$1²");
+  s = s.replace(new RegExp(`(${OPERAND}) cubed\\b`, "gi"), "$1³");
+  s = s.replace(new RegExp(`(${OPERAND}) percent\\b`, "gi"), "$1%");
+  // Operators between two operands (the right one is only looked at, so chains work)
+  for (const [words, symbol] of SPOKEN_OPERATORS) {
+    const between = new RegExp(`(${OPERAND}%?) ${words} (?=${OPERAND})`, "gi");
+    s = s.replace(between, TIGHT.has(symbol) ? `$1${symbol}` : `$1 ${symbol} `);
+  }
+  // Number words that ended up next to a symbol become digits
+  const near = new RegExp(`\\b${NUMBER_WORDS}\\b(?=\\s?[-+×÷=<>≤≥^/²³%])|(?<=[-+×÷=<>≤≥^/√]\\s?)\\b${NUMBER_WORDS}\\b`, "gi");
+  return s.replace(near, toNumber);
+}
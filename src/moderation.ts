@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { defineStore } from "./db";
+import { profileRange } from "./sessions";
+
+// =============== Moderation log ===============
+// The tutor function screens what the child types and what the model answers
+// (see netlify/lib/moderation.ts). Whatever it blocks or redacts comes back as a flag,
+// which is kept here, on the device, for the parent dashboard.
+export const STRICTNESS = ["relaxed", "standard", "strict"] as const;
+export type Strictness = (typeof STRICTNESS)[number];
+export const STRICTNESS_LABELS: Record<Strictness, string> = {
+  relaxed: "Relaxed (strong language only; personal info is hidden)",
+  standard: "Standard",
+  strict: "Strict (also unkind words)",
+};
+
+export const ModerationFlagSchema = z.object({
+  where: z.enum(["input", "output"]),
+  category: z.enum(["profanity", "insult", "self_harm", "personal_info"]),
+  action: z.enum(["blocked", "redacted"]),
+  excerpt: z.string(),
+});
+export type ModerationFlag = z.infer<typeof ModerationFlagSchema>;
+
+const ModerationEventSchema = ModerationFlagSchema.extend({
+  id: z.string(),
+  profileId: z.string(),
+  subject: z.string(),
+  at: z.number(),
+});
+export type ModerationEvent = z.infer<typeof ModerationEventSchema>;
+
+export const moderationLog = defineStore({
+  name: "moderationLog",
+  keyPath: "id",
+  indexes: { by_profile_at: ["profileId", "at"] },
+  schema: ModerationEventSchema,
+  version: 5,
+});
+
+export async function logFlags(profileId: string, subject: string, flags: ModerationFlag[]) {
+  const at = Date.now();
+  for (const flag of flags) await moderationLog.put({ ...flag, id: crypto.randomUUID(), profileId, subject, at });
+}
+
+// A 422 from the tutor function: { error: "flagged", flag, message }
+export async function readFlagged(r: Response): Promise<{ flag: ModerationFlag; message: string } | null> {
+  if (r.status !== 422) return null;
+  const body = await r.json().catch(() => null);
+  const flag = ModerationFlagSchema.safeParse(body?.flag);
+  return flag.success ? { flag: flag.data, message: String(body.message ?? "") } : null;
+}
+// Flags that ride along with a successful reply
+export function flagsOf(body: { flags?: unknown }): ModerationFlag[] {
+  const parsed = z.array(ModerationFlagSchema).safeParse(body.flags ?? []);
+  return parsed.success ? parsed.data : [];
+}
+
+export async function loadModerationLog(profileId: string, limit = 50) {
+  const page = await moderationLog.page({ index: "by_profile_at", query: profileRange(profileId), direction: "prev", limit });
+  return page.rows;
+}
+export async function clearModerationLog(profileId: string) {
+  for (const id of await moderationLog.keys("by_profile_at", profileRange(profileId))) {
+    await moderationLog.delete(id);
+  }
+}
@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import { defineStore } from "./db";
+import { limitMessage, postTutor } from "./api";
+import { flagsOf, readFlagged, type ModerationFlag, type Strictness } from "./moderation";
+import { ImageSchema } from "./images";
+import { profileRange } from "./sessions";
+import { SUBJECTS } from "./stats";
+import { historyFor, loadThread } from "./threads";
+
+// =============== Offline outbox ===============
+// Questions asked while offline (or while the tutor couldn't be reached) wait here, per
+// profile, and are sent one at a time, oldest first, when the connection comes back. Each
+// goes out with the thread as it is by then, so answers to earlier queued questions count.
+const QueuedSchema = z.object({
+  id: z.string(),
+  profileId: z.string(),
+  subject: z.enum(SUBJECTS),
+  message: z.string(),   // sent to the tutor
+  prompt: z.string(),    // saved as the session's question (the message box at the time)
+  images: z.array(ImageSchema).optional(),
+  subjectNote: z.string().optional(), // the parent's note for the subject when it was asked
+  createdAt: z.number(),
+});
+export type QueuedQuestion = z.infer<typeof QueuedSchema>;
+
+export const outbox = defineStore({
+  name: "outbox",
+  keyPath: "id",
+  indexes: { by_profile_created: ["profileId", "createdAt"] },
+  schema: QueuedSchema,
+  version: 10,
+});
+
+const OUTBOX_EVENT = "outbox-changed";
+const RETRY_MS = 60 * 1000;
+
+export async function queueQuestion(entry: Omit<QueuedQuestion, "id" | "createdAt">) {
+  await outbox.put({ id: crypto.randomUUID(), createdAt: Date.now(), ...entry });
+  window.dispatchEvent(new Event(OUTBOX_EVENT));
+}
+export function loadOutbox(profileId: string) {
+  return outbox.all("by_profile_created", profileRange(profileId));
+}
+export async function removeQueued(id: string) {
+  await outbox.delete(id);
+  window.dispatchEvent(new Event(OUTBOX_EVENT));
+}
+
+// ---------- Sending ----------
+// "wait": keep it queued and stop for now (the request didn't get there, or over the tutor's limits)
+export type SendResult =
+  | { kind: "answer"; text: string; flags: ModerationFlag[] }
+  | { kind: "blocked"; flag: ModerationFlag; message: string }
+  | { kind: "failed"; message: string }
+  | { kind: "wait"; message?: string };
+
+export async function sendQueued(
+  item: QueuedQuestion,
+  profile: { id: string; grade: string; dyslexiaAssist: boolean; safety: Strictness },
+): Promise<SendResult> {
+  const thread = await loadThread(item.profileId, item.subject);
+  let r: Response;
+  try {
+    r = await postTutor({
+      profile, subject: item.subject, message: item.message, images: item.images ?? [], subjectNote: item.subjectNote,
+      history: historyFor(thread),
+    });
+  } catch {
+    return { kind: "wait" };
+  }
+  const blocked = await readFlagged(r);
+  if (blocked) return { kind: "blocked", ...blocked };
+  const limited = await limitMessage(r);
+  if (limited) return { kind: "wait", message: limited };
+  if (r.status === 415) return { kind: "failed", message: "This tutor can’t look at photos. Please type the problem in instead." };
+  // A server or provider error would fail the same way every time, so it isn't retried
+  if (!r.ok) return { kind: "failed", message: "Couldn’t send a saved question. Please ask it again." };
+  const body = await r.json().catch(() => null);
+  if (typeof body?.text !== "string") return { kind: "failed", message: "Couldn’t send a saved question. Please ask it again." };
+  return { kind: "answer", text: body.text, flags: flagsOf(body) };
+}
+
+// ---------- Hooks ----------
+export function useOnline() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const on = () => setOnline(true);
+    const off = () => setOnline(false);
+    window.addEventListener("online", on);
+    window.addEventListener("offline", off);
+    return () => { window.removeEventListener("online", on); window.removeEventListener("offline", off); };
+  }, []);
+  return online;
+}
+
+// The profile's queued questions; sends them whenever the browser is online, and retries
+// every RETRY_MS while any are left. `onResult` runs before each one leaves the queue.
+export function useOutbox(
+  profile: { id: string; grade: string; dyslexiaAssist: boolean; safety: Strictness },
+  onResult: (item: QueuedQuestion, result: Exclude<SendResult, { kind: "wait" }>) => Promise<void>,
+) {
+  const [queued, setQueued] = useState<QueuedQuestion[]>([]);
+  const [sending, setSending] = useState(false);
+  const onResultRef = useRef(onResult);
+  useEffect(() => { onResultRef.current = onResult; }, [onResult]);
+  const { id, grade, dyslexiaAssist, safety } = profile;
+
+  useEffect(() => {
+    let cancelled = false;
+    let running = false;
+    let again = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const who = { id, grade, dyslexiaAssist, safety };
+
+    async function run() {
+      if (running) { again = true; return; }
+      running = true;
+      try {
+        let items = await loadOutbox(id);
+        if (!cancelled) setQueued(items);
+        if (!navigator.onLine || !items.length) return;
+        if (!cancelled) setSending(true);
+        for (const item of items) {
+          if (cancelled) return;
+          const result = await sendQueued(item, who);
+          if (result.kind === "wait") {
+            if (!cancelled) { clearTimeout(timer); timer = setTimeout(run, RETRY_MS); }
+            break;
+          }
+          // Finish this one even if another profile is on screen now: it was sent (and paid
+          // for), so leaving it queued would send it again. The rest wait for that profile.
+          await onResultRef.current(item, result);
+          await outbox.delete(item.id);
+        }
+        items = await loadOutbox(id);
+        if (!cancelled) setQueued(items);
+      } finally {
+        running = false;
+        if (!cancelled) setSending(false);
+        if (again && !cancelled) { again = false; run(); }
+      }
+    }
+
+    run();
+    window.addEventListener("online", run);
+    window.addEventListener(OUTBOX_EVENT, run);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      window.removeEventListener("online", run);
+      window.removeEventListener(OUTBOX_EVENT, run);
+    };
+  }, [id, grade, dyslexiaAssist, safety]);
+
+  return { queued, sending };
+}
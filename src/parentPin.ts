@@ -0,0 +1,111 @@
+// =============== Parent PIN ===============
+// Stored only as a salted PBKDF2 hash. Wrong entries count toward a lockout that
+// grows with every further miss, so the PIN can't simply be guessed at the prompt.
+
+const HASH_KEY = "parentPinHash";
+const LOCK_KEY = "parentPinLock";
+const LEGACY_KEY = "parentPin"; // plain-text PIN from older versions
+
+const ITERATIONS = 150_000;
+const MAX_ATTEMPTS = 5;
+const BASE_LOCK_MS = 5 * 60 * 1000;
+const MAX_LOCK_MS = 60 * 60 * 1000;
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+interface StoredPin { salt: string; hash: string; iterations: number }
+interface LockState { failures: number; lockedUntil: number }
+
+export type PinCheck = "ok" | "wrong" | "locked";
+
+const toB64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromB64 = (s: string) => Uint8Array.from(atob(s), c => c.charCodeAt(0));
+
+async function hashPin(pin: string, salt: Uint8Array, iterations: number) {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", salt: salt as BufferSource, iterations, hash: "SHA-256" }, key, 256);
+  return toB64(new Uint8Array(bits));
+}
+
+function readJSON<T>(key: string): T | null {
+  try { const raw = localStorage.getItem(key); return raw ? (JSON.parse(raw) as T) : null; }
+  catch { return null; }
+}
+
+async function storePin(pin: string) {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const stored: StoredPin = { salt: toB64(salt), hash: await hashPin(pin, salt, ITERATIONS), iterations: ITERATIONS };
+  localStorage.setItem(HASH_KEY, JSON.stringify(stored));
+  localStorage.removeItem(LEGACY_KEY);
+}
+
+// Older versions kept the PIN in plain text: hash it once and drop the original
+async function migrateLegacyPin() {
+  const legacy = localStorage.getItem(LEGACY_KEY);
+  if (legacy === null) return;
+  if (!localStorage.getItem(HASH_KEY) && legacy) await storePin(legacy);
+  localStorage.removeItem(LEGACY_KEY);
+}
+
+export function hasPin() {
+  return !!localStorage.getItem(HASH_KEY) || !!localStorage.getItem(LEGACY_KEY);
+}
+
+// ms left before another attempt is allowed (0 = not locked)
+export function lockoutRemaining(now = Date.now()) {
+  const lock = readJSON<LockState>(LOCK_KEY);
+  return lock ? Math.max(0, lock.lockedUntil - now) : 0;
+}
+
+function recordFailure(now = Date.now()) {
+  const lock = readJSON<LockState>(LOCK_KEY) ?? { failures: 0, lockedUntil: 0 };
+  const failures = lock.failures + 1;
+  const over = failures - MAX_ATTEMPTS;
+  const lockedUntil = over >= 0 ? now + Math.min(BASE_LOCK_MS * 2 ** over, MAX_LOCK_MS) : 0;
+  localStorage.setItem(LOCK_KEY, JSON.stringify({ failures, lockedUntil }));
+}
+
+export async function verifyPin(pin: string): Promise<PinCheck> {
+  if (lockoutRemaining() > 0) return "locked";
+  await migrateLegacyPin();
+  const stored = readJSON<StoredPin>(HASH_KEY);
+  if (!stored) return "wrong";
+  const hash = await hashPin(pin, fromB64(stored.salt), stored.iterations);
+  if (hash === stored.hash) { localStorage.removeItem(LOCK_KEY); return "ok"; }
+  recordFailure();
+  return lockoutRemaining() > 0 ? "locked" : "wrong";
+}
+
+// Changing an existing PIN needs the current one; the first PIN can be set freely
+export async function changePin(current: string | null, next: string): Promise<PinCheck | "invalid"> {
+  if (!PIN_PATTERN.test(next)) return "invalid";
+  if (hasPin()) {
+    const check = await verifyPin(current ?? "");
+    if (check !== "ok") return check;
+  }
+  await storePin(next);
+  return "ok";
+}
+
+export function lockoutMessage() {
+  const minutes = Math.ceil(lockoutRemaining() / 60000);
+  return `Too many wrong PINs. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
+
+// Gate for parent-only actions. Asks for a new PIN if none has been set yet.
+export async function requireParentPin(): Promise<boolean> {
+  if (!hasPin()) {
+    const first = prompt("Create a parent PIN (4–8 digits):");
+    if (first === null) return false;
+    if (!PIN_PATTERN.test(first)) { alert("The PIN must be 4–8 digits."); return false; }
+    if (prompt("Type the new PIN again:") !== first) { alert("The PINs didn’t match."); return false; }
+    await storePin(first);
+    return true;
+  }
+  if (lockoutRemaining() > 0) { alert(lockoutMessage()); return false; }
+  const pin = prompt("Parent PIN:");
+  if (pin === null) return false;
+  const check = await verifyPin(pin);
+  if (check === "ok") return true;
+  alert(check === "locked" ? lockoutMessage() : "Incorrect PIN.");
+  return false;
+}
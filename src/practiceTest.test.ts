@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { isCorrect, type Question } from "./practiceTest";
+
+const numeric = (answer: string, accept?: string[]): Question => ({ id: "q1", type: "numeric", prompt: "?", answer, accept });
+
+describe("isCorrect (numeric)", () => {
+  it.each([
+    ["6/5", "1 1/5"],
+    ["6/5", "1.2"],
+    ["1.2", "6/5"],
+    ["1/3", "0.333"],
+    ["0.333", "1/3"],
+    ["1,000", "1000"],
+    ["-3", "-3"],
+    ["3/4", "three fourths"],
+  ])("%s accepts %s", (answer, given) => {
+    expect(isCorrect(numeric(answer), given)).toBe(true);
+  });
+
+  it.each([
+    ["1/3", "0.3"],
+    ["6/5", "1.25"],
+    ["4", "four apples"],
+    ["4", ""],
+  ])("%s rejects %s", (answer, given) => {
+    expect(isCorrect(numeric(answer), given)).toBe(false);
+  });
+
+  it("also checks the accepted alternatives", () => {
+    expect(isCorrect(numeric("0.5", ["1/2"]), "2/4")).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { checkAnswer, evaluate } from "./arithmetic";
+
+// =============== Practice tests ===============
+// Shape returned by the tutor function for { kind: "test" } (see netlify/lib/practiceTest.ts)
+const QuestionSchema = z.object({
+  id: z.string(),
+  type: z.enum(["multiple_choice", "short_answer", "numeric"]),
+  prompt: z.string(),
+  choices: z.array(z.string()).optional(),
+  answer: z.string(),
+  accept: z.array(z.string()).optional(),
+  explanation: z.string().optional(),
+});
+export const PracticeTestSchema = z.object({
+  title: z.string(),
+  questions: z.array(QuestionSchema),
+});
+export type Question = z.infer<typeof QuestionSchema>;
+export type PracticeTest = z.infer<typeof PracticeTestSchema>;
+
+const QuestionResultSchema = z.object({ id: z.string(), given: z.string(), correct: z.boolean() });
+export const TestResultSchema = z.object({
+  answers: z.record(z.string(), z.string()),
+  results: z.array(QuestionResultSchema),
+  score: z.number(),
+  total: z.number(),
+  gradedAt: z.number(),
+});
+export type QuestionResult = z.infer<typeof QuestionResultSchema>;
+export type TestResult = z.infer<typeof TestResultSchema>;
+
+// Numeric answers are compared exactly, the same way as the check questions (arithmetic.ts):
+// 6/5, 1 1/5 and 1.2 are one answer, and 0.33 or 0.333 count for 1/3 whichever side wrote it
+function sameNumber(expected: string, given: string) {
+  const matches = (value: string, answer: string) => {
+    const exact = evaluate(value);
+    const result = exact && checkAnswer(exact, answer);
+    return !!result && result.ok && result.correct;
+  };
+  return matches(expected, given) || matches(given, expected);
+}
+
+// Case, punctuation and extra spaces don't matter for short answers
+function normalizeText(s: string) {
+  return s.toLowerCase().replace(/[^\p{L}\p{N}\s/.-]/gu, "").replace(/\s+/g, " ").trim();
+}
+
+export function isCorrect(q: Question, given: string): boolean {
+  if (!given.trim()) return false;
+  const expected = [q.answer, ...(q.accept ?? [])];
+  if (q.type === "numeric") {
+    return expected.some(e => sameNumber(e, given));
+  }
+  return expected.some(e => normalizeText(e) === normalizeText(given));
+}
+
+export function gradeTest(test: PracticeTest, answers: Record<string, string>): TestResult {
+  const results = test.questions.map(q => {
+    const given = answers[q.id] ?? "";
+    return { id: q.id, given, correct: isCorrect(q, given) };
+  });
+  return {
+    answers,
+    results,
+    score: results.filter(r => r.correct).length,
+    total: results.length,
+    gradedAt: Date.now(),
+  };
+}
+
+// Plain-text version for the session log / history list
+export function testToText(test: PracticeTest) {
+  return [
+    test.title,
+    ...test.questions.map((q, i) =>
+      `${i + 1}. ${q.prompt}${q.choices ? `\n   Choices: ${q.choices.join(" | ")}` : ""}`),
+    "",
+    "Answer Key",
+    ...test.questions.map((q, i) => `${i + 1}. ${q.answer}`),
+  ].join("\n");
+}
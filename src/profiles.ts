@@ -0,0 +1,227 @@
+import { ensureDB } from "./db";
+import type { Strictness } from "./moderation";
+import { DEFAULT_VOICE, type VoicePrefs } from "./speech";
+import { supabase } from "./supabase";
+import { markChanged, profileRange, sessions } from "./sessions";
+import { defaultPrompts, normalizePrompts, type PromptSettings } from "./prompts";
+import { threads } from "./threads";
+import { vocab } from "./vocab";
+
+// =============== Profiles ===============
+export type Theme = "light" | "dark" | "high-contrast";
+export type GradeLevel = "K"|"1"|"2"|"3"|"4"|"5"|"6"|"7"|"8";
+export type FontSize = "sm"|"md"|"lg"|"xl";
+export type LineSpacing = 1.6|1.8|2.0;
+
+export const FONT_MAP: Record<FontSize, number> = { sm: 15, md: 17, lg: 19, xl: 21 };
+export const GRADES: GradeLevel[] = ["K","1","2","3","4","5","6","7","8"];
+
+// Display preferences travel with the kid, not the device
+export type InputMode = "keyboard" | "voice";
+export interface ProfilePrefs {
+  theme: Theme;
+  fontSize: FontSize;
+  lineSpacing: LineSpacing;
+  voice: VoicePrefs; // read-aloud
+  input: InputMode; // how questions are asked by default
+}
+export interface Profile {
+  id: string;        // UUID, the same on every device
+  name: string;
+  grade: GradeLevel;
+  dyslexiaAssist: boolean;
+  safety: Strictness; // content filter level (parent setting)
+  prefs: ProfilePrefs;
+  prompts: PromptSettings; // quick actions and per-subject notes (parent setting)
+  updatedAt: number; // last local or cloud edit, for last-writer-wins merges
+}
+// Remembers deleted profiles so a sync doesn't bring them back
+export interface ProfileTombstone { id: string; deletedAt: number }
+
+// Before prefs were per profile they were global settings; use those as the starting point
+function legacyPrefs(): ProfilePrefs {
+  return {
+    theme: (localStorage.getItem("theme") as Theme) || "light",
+    fontSize: (localStorage.getItem("fontSize") as FontSize) || "md",
+    lineSpacing: (Number(localStorage.getItem("lineSpacing")) as LineSpacing) || 1.8,
+    voice: DEFAULT_VOICE,
+    input: "keyboard",
+  };
+}
+
+export function newProfile(fields: Partial<Profile> = {}): Profile {
+  return {
+    id: crypto.randomUUID(), name: "", grade: "3", dyslexiaAssist: false, safety: "standard",
+    prefs: legacyPrefs(), prompts: defaultPrompts(), updatedAt: Date.now(), ...fields,
+  };
+}
+// Starter profiles for a fresh device. updatedAt 0 marks them as untouched, so signing in to a
+// household that already has profiles replaces them instead of adding duplicates.
+export function defaultProfiles(): Profile[] {
+  return [
+    newProfile({ name: "Daughter", grade: "6", dyslexiaAssist: true, updatedAt: 0 }),
+    newProfile({ name: "Son", grade: "3", dyslexiaAssist: false, updatedAt: 0 }),
+  ];
+}
+
+// Fill in fields that profiles saved by older versions don't have
+export function normalizeProfile(p: Partial<Profile> & { id: string }): Profile {
+  return {
+    name: "", grade: "3", dyslexiaAssist: false, updatedAt: Date.now(), ...p,
+    safety: p.safety ?? "standard",
+    prefs: { ...legacyPrefs(), ...p.prefs },
+    prompts: p.prompts ? normalizePrompts(p.prompts) : defaultPrompts(),
+  };
+}
+
+export function loadLocalProfiles(): Profile[] {
+  try {
+    const saved = localStorage.getItem("profiles");
+    return saved ? (JSON.parse(saved) as Profile[]).map(normalizeProfile) : defaultProfiles();
+  } catch { return defaultProfiles(); }
+}
+export function loadTombstones(): ProfileTombstone[] {
+  try { return JSON.parse(localStorage.getItem("deletedProfiles") || "[]"); }
+  catch { return []; }
+}
+// Union with what's already stored, keeping the latest deletion time per id
+export function addTombstones(list: ProfileTombstone[]) {
+  const byId = new Map(loadTombstones().map(t => [t.id, t]));
+  for (const t of list) {
+    const prev = byId.get(t.id);
+    if (!prev || prev.deletedAt < t.deletedAt) byId.set(t.id, t);
+  }
+  localStorage.setItem("deletedProfiles", JSON.stringify([...byId.values()]));
+}
+
+// ---------- Stable ids ----------
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+export const isStableId = (id: string) => UUID_RE.test(id);
+
+// Move every local row of `oldId` to `newId`. Thread and vocab keys start with "<profileId>:".
+export async function rekeyProfileData(oldId: string, newId: string) {
+  const db = await ensureDB();
+  const tx = db.transaction([sessions.name, threads.name, vocab.name], "readwrite");
+  const sessionStore = tx.objectStore(sessions.name);
+  for (const row of await sessionStore.index("by_profile_created").getAll(profileRange(oldId))) {
+    await sessionStore.put(markChanged({ ...row, profileId: newId }));
+  }
+  const prefixed = [
+    { store: tx.objectStore(threads.name), rows: await tx.objectStore(threads.name).index("by_profile").getAll(oldId) },
+    { store: tx.objectStore(vocab.name), rows: await tx.objectStore(vocab.name).index("by_profile_due").getAll(profileRange(oldId)) },
+  ];
+  for (const { store, rows } of prefixed) {
+    for (const row of rows) {
+      await store.delete(row.id);
+      await store.put({ ...row, id: `${newId}${String(row.id).slice(oldId.length)}`, profileId: newId });
+    }
+  }
+  await tx.done;
+}
+
+// Profiles created before cloud sync have ids like "p1". Give them UUIDs (and move their
+// sessions, threads and words along) before the app reads anything. The planned moves are
+// stored first so an interrupted run finishes with the same ids.
+export async function migrateLegacyProfileIds() {
+  const saved = localStorage.getItem("profiles");
+  if (!saved) return;
+  let profiles: Profile[];
+  try { profiles = JSON.parse(saved); } catch { return; }
+  const planned: Record<string, string> = JSON.parse(localStorage.getItem("profileIdMoves") || "{}");
+  for (const p of profiles) if (!isStableId(p.id) && !planned[p.id]) planned[p.id] = crypto.randomUUID();
+  const moves = Object.entries(planned);
+  if (!moves.length) return;
+  localStorage.setItem("profileIdMoves", JSON.stringify(planned));
+
+  for (const [oldId, newId] of moves) await rekeyProfileData(oldId, newId);
+  localStorage.setItem("profiles", JSON.stringify(profiles.map(p => ({ ...p, id: planned[p.id] ?? p.id }))));
+  const current = localStorage.getItem("currentProfileId");
+  if (current && planned[current]) localStorage.setItem("currentProfileId", planned[current]);
+  localStorage.removeItem("profileIdMoves");
+}
+
+// ---------- Cloud (profiles_cloud) ----------
+interface CloudProfileRow {
+  id: string;
+  household_id: string;
+  name: string;
+  grade: GradeLevel;
+  dyslexia_assist: boolean;
+  safety: Strictness | null;
+  prefs: Partial<ProfilePrefs> | null;
+  prompts: PromptSettings | null;
+  deleted: boolean;
+  updated_at: string;
+}
+
+function fromCloud(r: CloudProfileRow): Profile {
+  return normalizeProfile({
+    id: r.id, name: r.name, grade: r.grade, dyslexiaAssist: r.dyslexia_assist, safety: r.safety ?? undefined,
+    prefs: r.prefs as ProfilePrefs, prompts: r.prompts ?? undefined, updatedAt: new Date(r.updated_at).getTime(),
+  });
+}
+function toCloud(householdId: string, p: Profile, deleted = false): CloudProfileRow {
+  return {
+    id: p.id, household_id: householdId, name: p.name, grade: p.grade, dyslexia_assist: p.dyslexiaAssist,
+    safety: p.safety, prefs: p.prefs, prompts: p.prompts, deleted, updated_at: new Date(p.updatedAt).toISOString(),
+  };
+}
+
+// Last writer wins per profile; a deletion wins over edits made before it
+export function mergeProfiles(
+  local: Profile[],
+  tombstones: ProfileTombstone[],
+  remote: { profile: Profile; deleted: boolean }[]
+) {
+  const localById = new Map(local.map(p => [p.id, p]));
+  const deletedAt = new Map(tombstones.map(t => [t.id, t.deletedAt]));
+  const remoteById = new Map(remote.map(r => [r.profile.id, r]));
+  const ids = new Set([...localById.keys(), ...deletedAt.keys(), ...remoteById.keys()]);
+
+  const merged: Profile[] = [];
+  const push: { profile: Profile; deleted: boolean }[] = [];
+  const nextTombstones: ProfileTombstone[] = [];
+
+  for (const id of ids) {
+    const mine = localById.get(id);
+    const theirs = remoteById.get(id);
+    const goneAt = deletedAt.get(id);
+    if (mine && !theirs && mine.updatedAt === 0 && remote.length) continue; // untouched starter profile
+    // Pick the newest of: local edit, local deletion, cloud row (edit or deletion)
+    const candidates = [
+      mine && { at: mine.updatedAt, profile: mine, deleted: false, from: "local" as const },
+      goneAt !== undefined && { at: goneAt, profile: theirs?.profile ?? mine, deleted: true, from: "local" as const },
+      theirs && { at: theirs.profile.updatedAt, profile: theirs.profile, deleted: theirs.deleted, from: "cloud" as const },
+    ].filter(Boolean) as { at: number; profile: Profile | undefined; deleted: boolean; from: "local" | "cloud" }[];
+    const winner = candidates.sort((a, b) => b.at - a.at || (a.from === "cloud" ? 1 : -1))[0];
+    if (!winner) continue;
+
+    if (winner.deleted) nextTombstones.push({ id, deletedAt: winner.at });
+    else if (winner.profile) merged.push(winner.profile);
+
+    const cloudUpToDate = theirs && theirs.deleted === winner.deleted && theirs.profile.updatedAt >= winner.at;
+    if (!cloudUpToDate && winner.profile) {
+      push.push({ profile: { ...winner.profile, updatedAt: winner.at }, deleted: winner.deleted });
+    }
+  }
+  // Keep the original order for profiles that were already on this device
+  const order = new Map(local.map((p, i) => [p.id, i]));
+  merged.sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity));
+  return { profiles: merged, tombstones: nextTombstones, push };
+}
+
+// Pull the household's profiles, merge with local edits, push back whatever the cloud is missing
+export async function syncProfiles(householdId: string, local: Profile[], tombstones: ProfileTombstone[]) {
+  const { data, error } = await supabase.from("profiles_cloud").select("*").eq("household_id", householdId);
+  if (error) throw new Error(error.message);
+  const remote = (data as CloudProfileRow[]).map(r => ({ profile: fromCloud(r), deleted: r.deleted }));
+
+  const result = mergeProfiles(local, tombstones, remote);
+  if (result.push.length) {
+    const { error: pushError } = await supabase
+      .from("profiles_cloud")
+      .upsert(result.push.map(r => toCloud(householdId, r.profile, r.deleted)), { onConflict: "id" });
+    if (pushError) throw new Error(pushError.message);
+  }
+  return result;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { checkPrompts, defaultPrompts, fillTemplate, normalizePrompts, subjectNote } from "./prompts";
+
+describe("fillTemplate", () => {
+  const vars = { grade: "4", subject: "math", message: "  adding fractions " };
+
+  it("fills in the variables and leaves other braces alone", () => {
+    expect(fillTemplate("Explain {message} for grade {grade} ({subject}). Use {emoji}.", vars)).toBe(
+      "Explain adding fractions for grade 4 (math). Use {emoji}.",
+    );
+  });
+
+  it("caps the result at the function's message length", () => {
+    expect(fillTemplate("{message}", { ...vars, message: "a".repeat(500) })).toHaveLength(400);
+  });
+});
+
+describe("checkPrompts", () => {
+  it("accepts the standard buttons", () => {
+    expect(checkPrompts(defaultPrompts())).toEqual([]);
+  });
+
+  it("lists each problem by button", () => {
+    const draft = {
+      actions: [
+        { id: "a", label: " ", template: "Say it like a {pirate} for {grade}" },
+        { id: "b", label: "Again", template: "" },
+      ],
+      subjectNotes: {},
+    };
+    expect(checkPrompts(draft)).toEqual([
+      "Button 1 needs a label.",
+      "Button 1: {pirate} isn’t a variable.",
+      "Button 2 needs something to ask.",
+    ]);
+  });
+});
+
+describe("stored settings", () => {
+  it("fall back to the defaults when they don't fit", () => {
+    expect(normalizePrompts({ actions: "nope" })).toEqual(defaultPrompts());
+    expect(normalizePrompts({ actions: [], subjectNotes: { math: " Column method " } }).subjectNotes.math).toBe("Column method");
+  });
+
+  it("send no note for a blank one", () => {
+    expect(subjectNote({ actions: [], subjectNotes: { math: "  ", reading: "Phonics" } }, "math")).toBeUndefined();
+    expect(subjectNote({ actions: [], subjectNotes: { reading: "Phonics" } }, "reading")).toBe("Phonics");
+  });
+});
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { SUBJECTS, type SubjectKey } from "./stats";
+
+// =============== Prompt templates ===============
+// Parent-edited, per profile: the quick-action buttons under the question box, and a note per
+// subject that the tutor function adds to its instructions. Both are capped here and checked
+// again by the function, which keeps its own safety rules after them (netlify/functions/tutor.ts).
+export const MAX_ACTIONS = 6;
+export const MAX_LABEL_LENGTH = 24;
+export const MAX_TEMPLATE_LENGTH = 300;
+export const MAX_NOTE_LENGTH = 300;   // matches the function's cap
+const MAX_MESSAGE_LENGTH = 400;       // the function's cap on a message
+export const TEMPLATE_VARIABLES = ["grade", "subject", "message"] as const;
+
+const ActionSchema = z.object({
+  id: z.string().min(1).max(100),
+  label: z.string().trim().min(1).max(MAX_LABEL_LENGTH),
+  template: z.string().trim().min(1).max(MAX_TEMPLATE_LENGTH),
+});
+export const PromptSettingsSchema = z.object({
+  actions: z.array(ActionSchema).max(MAX_ACTIONS),
+  subjectNotes: z.partialRecord(z.enum(SUBJECTS), z.string().trim().max(MAX_NOTE_LENGTH)),
+});
+export type QuickAction = z.infer<typeof ActionSchema>;
+export type PromptSettings = z.infer<typeof PromptSettingsSchema>;
+
+// The buttons every profile started with; "hint" is also what "I'm stuck" asks for
+export const DEFAULT_ACTIONS: QuickAction[] = [
+  { id: "simplify", label: "Simplify", template: "Please simplify the explanation even more." },
+  { id: "steps", label: "Show steps", template: "Show numbered steps with one action per line." },
+  { id: "hint", label: "Hint", template: "Give me one helpful hint, not the full answer." },
+];
+export const HINT_ACTION = DEFAULT_ACTIONS[2];
+export const defaultPrompts = (): PromptSettings => ({ actions: DEFAULT_ACTIONS.map(a => ({ ...a })), subjectNotes: {} });
+
+// Anything saved by an older version, or edited elsewhere, that doesn't fit goes back to the defaults
+export function normalizePrompts(value: unknown): PromptSettings {
+  const parsed = PromptSettingsSchema.safeParse(value);
+  return parsed.success ? parsed.data : defaultPrompts();
+}
+
+// The note sent with a request about this subject (blank notes aren't sent)
+export function subjectNote(prompts: PromptSettings, subject: SubjectKey) {
+  return prompts.subjectNotes[subject]?.trim() || undefined;
+}
+
+// {grade}, {subject} and {message} are filled in; other braces are left as typed
+export function fillTemplate(template: string, vars: { grade: string; subject: string; message: string }) {
+  const filled = template.replace(/\{(\w+)\}/g, (whole, name: string) =>
+    (TEMPLATE_VARIABLES as readonly string[]).includes(name) ? vars[name as keyof typeof vars].trim() : whole);
+  return filled.trim().slice(0, MAX_MESSAGE_LENGTH);
+}
+
+// Problems with a draft, in the order the editor shows its fields (empty = fine to save)
+export function checkPrompts(p: PromptSettings): string[] {
+  const problems: string[] = [];
+  p.actions.forEach((a, i) => {
+    if (!a.label.trim()) problems.push(`Button ${i + 1} needs a label.`);
+    if (!a.template.trim()) problems.push(`Button ${i + 1} needs something to ask.`);
+    for (const [, name] of a.template.matchAll(/\{(\w+)\}/g)) {
+      if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) problems.push(`Button ${i + 1}: {${name}} isn’t a variable.`);
+    }
+  });
+  return problems;
+}
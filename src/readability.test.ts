@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { readability, syllables, tooHard } from "./readability";
+
+describe("syllables", () => {
+  it.each<[string, number]>([
+    ["cat", 1],
+    ["make", 1],
+    ["jumped", 1],
+    ["water", 2],
+    ["yellow", 2],
+    ["fraction", 2],
+    ["photosynthesis", 5],
+    ["", 0],
+  ])("%s has %i", (word, count) => {
+    expect(syllables(word)).toBe(count);
+  });
+});
+
+describe("readability", () => {
+  it("scores short, plain sentences low", () => {
+    const score = readability("The cat sat on the mat. It was a sunny day. We had fun.");
+    expect(score).toMatchObject({ words: 14, wordsPerSentence: 4.7, hardWords: 0 });
+    expect(score!.grade).toBeLessThan(2);
+  });
+
+  it("scores long sentences full of long words high", () => {
+    const score = readability(
+      "Photosynthesis is the biological process through which chlorophyll-containing organisms convert electromagnetic radiation into chemical energy, subsequently releasing molecular oxygen.",
+    );
+    expect(score!.grade).toBeGreaterThan(12);
+  });
+
+  it("leaves out math, code and markdown", () => {
+    const marked = readability("**Divide** the fractions: $\\frac{3}{5} \\div \\frac{1}{2}$.\n- Flip the second one `(2/1)`.");
+    expect(marked).toEqual(readability("Divide the fractions. Flip the second one."));
+    expect(marked?.words).toBe(7);
+  });
+
+  it("has nothing to score without words", () => {
+    expect(readability("$3 + 4 = 7$")).toBeNull();
+  });
+});
+
+describe("tooHard", () => {
+  const hard = readability(Array(5).fill("Photosynthesis transforms electromagnetic radiation into chemical energy within chloroplasts.").join(" "));
+
+  it("asks for a rewrite only well above the grade", () => {
+    expect(tooHard(hard, "3")).toBe(true);
+    expect(tooHard(hard ? { ...hard, grade: 4 } : null, "3")).toBe(false);
+  });
+
+  it("ignores short answers", () => {
+    expect(tooHard(readability("Photosynthesis transforms electromagnetic radiation."), "K")).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import type { GradeLevel } from "./profiles";
+
+// =============== Readability ===============
+// Flesch-Kincaid grade level of a tutor answer, from sentence length and syllables per word.
+// Math, code and markdown are taken out first: "3/5 ÷ 1/2" says nothing about reading level.
+// When an answer reads well above the profile's grade, App asks the tutor once for a simpler rewrite.
+
+export interface Readability {
+  grade: number;            // Flesch-Kincaid grade, 0-16, one decimal
+  words: number;
+  wordsPerSentence: number;
+  hardWords: number;        // share of words with 3+ syllables, 0-1
+}
+
+// Below this many words the formula is mostly noise, so no rewrite is asked for
+const MIN_WORDS = 40;
+// Grade levels the answer may read above the profile's grade before a rewrite is asked for
+const TOLERANCE = 1.5;
+
+export const gradeNumber = (grade: GradeLevel) => (grade === "K" ? 0 : Number(grade));
+
+// Vowel groups, less a silent final e; good enough for short everyday words
+export function syllables(word: string) {
+  const w = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!w) return 0;
+  if (w.length <= 3) return 1;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "").match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+function proseOf(markdown: string) {
+  return markdown
+    .replace(/```[\s\S]*?```|`[^`]*`/g, " ")
+    .replace(/\$\$[\s\S]*?\$\$|\$[^$\n]*\$|\\\([\s\S]*?\\\)|\\\[[\s\S]*?\\\]/g, " ")
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/^\s*(?:[-*+]|\d+[.)]|#+|>)\s+/gm, "") // list markers, headings, quotes
+    .replace(/[*_~#>|]/g, " ");
+}
+
+export function readability(markdown: string): Readability | null {
+  // A line break ends a sentence too: list items and headings rarely have full stops
+  const sentences = proseOf(markdown)
+    .split(/[.!?]+(?=\s|$)|\n+/)
+    .map(s => s.match(/[A-Za-z][A-Za-z'’-]*/g) ?? [])
+    .filter(words => words.length > 0);
+  const words = sentences.flat();
+  if (!words.length) return null;
+  const counts = words.map(syllables);
+  const wordsPerSentence = words.length / sentences.length;
+  const perWord = counts.reduce((a, b) => a + b, 0) / words.length;
+  const grade = 0.39 * wordsPerSentence + 11.8 * perWord - 15.59;
+  return {
+    grade: Math.round(Math.min(16, Math.max(0, grade)) * 10) / 10,
+    words: words.length,
+    wordsPerSentence: Math.round(wordsPerSentence * 10) / 10,
+    hardWords: counts.filter(c => c >= 3).length / words.length,
+  };
+}
+
+export const aboveGrade = (score: Readability, grade: GradeLevel) => score.grade > gradeNumber(grade) + TOLERANCE;
+
+export function tooHard(score: Readability | null, grade: GradeLevel) {
+  return !!score && score.words >= MIN_WORDS && aboveGrade(score, grade);
+}
+
+// Follow-up sent when an answer came out too hard
+export function rewriteRequest(grade: GradeLevel) {
+  return `That was hard to read. Please rewrite your last answer for a ${grade}-grade student: short sentences and everyday words. Keep the same steps, math and check question.`;
+}
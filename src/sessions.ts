@@ -0,0 +1,166 @@
+import { z } from "zod";
+import { defineMigration, defineStore, ensureDB, type PageCursor } from "./db";
+import { PracticeTestSchema, TestResultSchema, type PracticeTest, type TestResult } from "./practiceTest";
+import { clearThreads, threads } from "./threads";
+import { clearSessionImages } from "./images";
+
+// =============== Sessions ===============
+// One row per tutor turn / practice test. Local writes go through `markChanged` so the
+// cloud sync (see sync.ts) knows what to push.
+const SessionSchema = z.object({
+  id: z.string(),
+  profileId: z.string(),
+  subject: z.string(),
+  prompt: z.string(),
+  response: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  pending: z.literal(1).optional(), // changed locally and not pushed yet (sparse index: absent = synced)
+  confusingWords: z.array(z.string()).optional(),
+  wins: z.array(z.string()).optional(),
+  misses: z.array(z.string()).optional(), // check questions answered wrong (see arithmetic.ts)
+  skills: z.array(z.string()).optional(), // standard codes the turn or test was about (see skills.ts)
+  removedNotes: z.array(z.string()).optional(), // notes deleted by hand, as noteKey()s, so a sync doesn't bring them back
+  test: PracticeTestSchema.optional(),
+  testResult: TestResultSchema.optional(),
+});
+const SessionTombstoneSchema = z.object({
+  id: z.string(),
+  profileId: z.string(),
+  createdAt: z.number(),
+  deletedAt: z.number(),
+});
+export type SessionRecord = z.infer<typeof SessionSchema>;
+export type SessionTombstone = z.infer<typeof SessionTombstoneSchema>;
+export type SessionNotes = Pick<SessionRecord, "confusingWords" | "wins" | "misses">;
+export const NOTE_FIELDS = ["confusingWords", "wins", "misses"] as const;
+export const noteKey = (field: keyof SessionNotes, note: string) => `${field}:${note.trim().toLowerCase()}`;
+
+export const sessions = defineStore({
+  name: "sessions",
+  keyPath: "id",
+  indexes: {
+    by_profile_created: ["profileId", "createdAt"],
+    by_profile_pending: ["profileId", "pending"],
+  },
+  schema: SessionSchema,
+  version: 4,
+});
+// Deleted sessions waiting to be deleted in the cloud too
+export const sessionTombstones = defineStore({
+  name: "sessionTombstones",
+  keyPath: "id",
+  indexes: { by_profile: "profileId" },
+  schema: SessionTombstoneSchema,
+  version: 4,
+});
+
+defineMigration({
+  version: 4,
+  description: "stamp sessions from before change tracking and queue each for one push",
+  async run(tx) {
+    let cursor = await tx.objectStore("sessions").openCursor();
+    while (cursor) {
+      await cursor.update({ ...cursor.value, updatedAt: cursor.value.updatedAt ?? cursor.value.createdAt, pending: 1 });
+      cursor = await cursor.continue();
+    }
+  },
+});
+
+// All of one profile's rows in the by_profile_* compound indexes
+export const profileRange = (profileId: string, from = -Infinity, to = Infinity) =>
+  IDBKeyRange.bound([profileId, from], [profileId, to]);
+
+export const SYNC_EVENT = "sessions-changed";
+
+// Stamp a local edit so the next sync pushes it
+export function markChanged<T extends object>(row: T): T & { updatedAt: number; pending: 1 } {
+  return { ...row, updatedAt: Date.now(), pending: 1 };
+}
+// Ask the running sync (if any) to push soon
+export function requestSync() {
+  window.dispatchEvent(new Event(SYNC_EVENT));
+}
+
+// ---------- Queries ----------
+export async function saveSession(entry: {
+  profileId: string;
+  subject: string;
+  prompt: string;
+  response: string;
+  confusingWords?: string[];
+  wins?: string[];
+  skills?: string[];
+  test?: PracticeTest;
+}) {
+  const id = crypto.randomUUID();
+  await sessions.put(markChanged({ id, createdAt: Date.now(), ...entry }));
+  requestSync();
+  return id;
+}
+// A note that goes is remembered as removed until it is added again (see mergeSession in sync.ts)
+export async function updateSessionNotes(id: string, notes: SessionNotes) {
+  const row = await sessions.get(id);
+  if (!row) return;
+  const removed = new Set(row.removedNotes ?? []);
+  for (const field of NOTE_FIELDS) {
+    const next = notes[field];
+    if (!next) continue;
+    const kept = new Set(next.map(n => noteKey(field, n)));
+    for (const n of row[field] ?? []) if (!kept.has(noteKey(field, n))) removed.add(noteKey(field, n));
+    for (const key of kept) removed.delete(key);
+  }
+  await sessions.put(markChanged({
+    ...row,
+    confusingWords: notes.confusingWords ?? row.confusingWords,
+    wins: notes.wins ?? row.wins,
+    misses: notes.misses ?? row.misses,
+    removedNotes: removed.size ? [...removed] : undefined,
+  }));
+  requestSync();
+}
+export async function saveTestResult(id: string, testResult: TestResult) {
+  const row = await sessions.get(id);
+  if (!row) return;
+  await sessions.put(markChanged({ ...row, testResult }));
+  requestSync();
+}
+
+// History search, newest first, one page at a time (pass the returned cursor to get the next
+// page). Every word must appear in the prompt, response, tricky words, wins, misses or skill codes.
+export interface SessionFilter { text?: string; subject?: string; from?: number; to?: number }
+export function searchSessions(profileId: string, filter: SessionFilter, limit: number, after: PageCursor | null = null) {
+  const terms = (filter.text ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = (r: SessionRecord) => {
+    if (filter.subject && r.subject !== filter.subject) return false;
+    if (!terms.length) return true;
+    const haystack = [r.prompt, r.response, ...(r.confusingWords ?? []), ...(r.wins ?? []), ...(r.misses ?? []), ...(r.skills ?? [])].join("\n").toLowerCase();
+    return terms.every(t => haystack.includes(t));
+  };
+  return sessions.page({
+    index: "by_profile_created",
+    query: profileRange(profileId, filter.from ?? -Infinity, filter.to ?? Infinity),
+    direction: "prev", limit, after, filter: matches,
+  });
+}
+export function loadSessionsSince(profileId: string, since: number) {
+  return sessions.all("by_profile_created", profileRange(profileId, since));
+}
+
+// Deleted sessions leave tombstones so the deletion reaches the cloud (and other devices)
+export async function clearHistory(profileId?: string) {
+  const db = await ensureDB();
+  const rows = profileId ? await sessions.all("by_profile_created", profileRange(profileId)) : await sessions.all();
+  const tx = db.transaction([sessions.name, sessionTombstones.name], "readwrite");
+  const deletedAt = Date.now();
+  for (const row of rows) {
+    await tx.objectStore(sessions.name).delete(row.id);
+    const tombstone: SessionTombstone = { id: row.id, profileId: row.profileId, createdAt: row.createdAt, deletedAt };
+    await tx.objectStore(sessionTombstones.name).put(tombstone);
+  }
+  await tx.done;
+  requestSync();
+  await clearSessionImages(profileId);
+  if (!profileId) return (await ensureDB()).clear(threads.name);
+  await clearThreads(profileId);
+}
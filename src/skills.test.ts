@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from "vitest";
+import { classifySkills, skillByCode } from "./skills";
+
+// speech.ts (through profiles.ts) loads DOMPurify, which needs a browser
+vi.mock("./speech", () => ({ DEFAULT_VOICE: { voiceURI: "", rate: 1, pitch: 1 } }));
+
+describe("classifySkills", () => {
+  it("tags math near the child's grade, best match first", () => {
+    expect(classifySkills("How do I divide fractions?", "6", "math")).toEqual(["6.NS.A.1", "5.NF.B.7"]);
+    expect(classifySkills("How do I divide fractions?", "5", "math")).toEqual(["5.NF.B.7", "6.NS.A.1"]);
+  });
+
+  it("drops matches much weaker than the best one", () => {
+    expect(classifySkills("How do I divide fractions? Do I use keep change flip?", "6", "math")).toEqual(["6.NS.A.1"]);
+  });
+
+  it("only looks at ELA skills for the child's own grade", () => {
+    expect(classifySkills("What is the main idea of this story?", "3", "reading")).toEqual(["RL.3.2"]);
+  });
+
+  it("matches whole words only", () => {
+    expect(classifySkills("I want to add more paper to the printer", "1", "math")).toEqual(["1.OA.C.6"]);
+    expect(classifySkills("My address is on the envelope", "1", "math")).toEqual([]);
+  });
+
+  it("tags nothing for subjects outside the catalog", () => {
+    expect(classifySkills("What is the area of a triangle?", "6", "science")).toEqual([]);
+  });
+
+  it("gives the same skills for the same text", () => {
+    const text = "Find the mean and median of this data set, then write an equation.";
+    expect(classifySkills(text, "6", "study", 3)).toEqual(classifySkills(text, "6", "study", 3));
+    expect(classifySkills(text, "6", "study", 3).map((c) => skillByCode(c)?.grade)).not.toContain(undefined);
+  });
+});
@@ -0,0 +1,129 @@
+import { GRADES, type GradeLevel } from "./profiles";
+import { gradeNumber } from "./readability";
+
+// =============== Skills catalog ===============
+// Grade-level skills after the Common Core standards (K-8 math, ELA reading and writing),
+// bundled so classification works offline. Tutor turns and test questions are tagged by
+// keyword matching: no extra model call, and the same text always gets the same skills.
+
+export type SkillDomain = "math" | "reading" | "writing";
+export interface Skill {
+  code: string;       // standard code, e.g. "6.RP.A.1"
+  grade: GradeLevel;
+  domain: SkillDomain;
+  name: string;
+  keywords: string[]; // lowercase words or phrases that point to this skill
+}
+
+const skill = (code: string, grade: GradeLevel, domain: SkillDomain, name: string, keywords: string): Skill =>
+  ({ code, grade, domain, name, keywords: keywords.split(",").map(k => k.trim()) });
+
+// ---------- Math ----------
+const MATH: Skill[] = [
+  skill("K.CC.A.1", "K", "math", "Count to 100", "count, counting, count to, count by tens"),
+  skill("K.OA.A.2", "K", "math", "Add and subtract within 10", "add, plus, take away, minus, subtract, how many in all, how many left"),
+  skill("K.G.A.2", "K", "math", "Name shapes", "circle, square, triangle, rectangle, hexagon, shape, shapes"),
+  skill("K.MD.A.2", "K", "math", "Compare lengths and weights", "taller, shorter, longer, heavier, lighter"),
+  skill("1.OA.C.6", "1", "math", "Add and subtract within 20", "add, plus, minus, subtract, make ten, doubles, sum, difference"),
+  skill("1.NBT.B.2", "1", "math", "Tens and ones", "tens and ones, tens, ones, place value"),
+  skill("1.MD.B.3", "1", "math", "Tell time to the half hour", "clock, o'clock, half past, what time, hour hand, minute hand"),
+  skill("1.G.A.3", "1", "math", "Halves and fourths of shapes", "halves, fourths, half of, equal parts"),
+  skill("2.NBT.B.5", "2", "math", "Add and subtract within 100", "regroup, regrouping, carry, borrow, two-digit, add, subtract"),
+  skill("2.NBT.A.1", "2", "math", "Hundreds, tens and ones", "hundreds, tens, ones, place value, expanded form"),
+  skill("2.MD.C.8", "2", "math", "Money", "coins, dollars, cents, quarter, dime, nickel, penny, money"),
+  skill("2.OA.C.4", "2", "math", "Arrays and equal groups", "array, rows, columns, equal groups, repeated addition"),
+  skill("3.OA.C.7", "3", "math", "Multiply and divide within 100", "times tables, multiply, multiplication, product, divide, division, quotient, times"),
+  skill("3.NF.A.1", "3", "math", "Understand fractions", "fraction, fractions, numerator, denominator, unit fraction"),
+  skill("3.NF.A.3", "3", "math", "Equivalent and comparing fractions", "equivalent fractions, equivalent, compare fractions, greater fraction"),
+  skill("3.NBT.A.1", "3", "math", "Rounding", "round, rounding, nearest ten, nearest hundred, estimate"),
+  skill("3.MD.C.7", "3", "math", "Area", "area, square units, square feet, square meters"),
+  skill("3.MD.D.8", "3", "math", "Perimeter", "perimeter, around the outside"),
+  skill("4.NBT.B.5", "4", "math", "Multi-digit multiplication", "multi-digit, long multiplication, partial products"),
+  skill("4.NBT.B.6", "4", "math", "Long division", "long division, remainder, dividend, divisor"),
+  skill("4.OA.B.4", "4", "math", "Factors and multiples", "factor, factors, multiple, multiples, prime, composite"),
+  skill("4.NF.B.3", "4", "math", "Add and subtract fractions (like denominators)", "add fractions, subtract fractions, like denominators, mixed number, mixed numbers"),
+  skill("4.NF.C.6", "4", "math", "Decimals and fractions", "decimal, decimals, tenths, hundredths, decimal point"),
+  skill("4.MD.C.5", "4", "math", "Angles", "angle, angles, degrees, protractor, acute, obtuse, right angle"),
+  skill("5.OA.A.1", "5", "math", "Order of operations", "order of operations, parentheses, pemdas, brackets"),
+  skill("5.NF.A.1", "5", "math", "Add and subtract fractions (unlike denominators)", "unlike denominators, common denominator, least common denominator"),
+  skill("5.NF.B.4", "5", "math", "Multiply fractions", "multiply fractions, multiplying fractions, fraction of, of a fraction"),
+  skill("5.NF.B.7", "5", "math", "Divide with unit fractions", "divide fractions, dividing fractions, divided by a fraction, unit fraction"),
+  skill("5.NBT.B.7", "5", "math", "Decimal operations", "multiply decimals, divide decimals, add decimals, subtract decimals"),
+  skill("5.MD.C.5", "5", "math", "Volume", "volume, cubic, cubes, cubic units"),
+  skill("5.G.A.1", "5", "math", "Coordinate plane", "coordinate, coordinates, ordered pair, x-axis, y-axis, plot"),
+  skill("6.RP.A.1", "6", "math", "Ratios", "ratio, ratios, for every, to 1"),
+  skill("6.RP.A.2", "6", "math", "Unit rates", "unit rate, rate, per, miles per hour, unit price"),
+  skill("6.RP.A.3c", "6", "math", "Percents", "percent, percentage, %, percent of"),
+  skill("6.NS.A.1", "6", "math", "Divide fractions by fractions", "divide fractions, dividing fractions, reciprocal, keep change flip, flip"),
+  skill("6.NS.C.5", "6", "math", "Negative numbers", "negative, negative numbers, below zero, absolute value, opposite"),
+  skill("6.EE.A.2", "6", "math", "Expressions with variables", "variable, expression, expressions, evaluate, substitute"),
+  skill("6.EE.B.7", "6", "math", "One-step equations", "equation, solve for, one-step, solve"),
+  skill("6.G.A.1", "6", "math", "Area of triangles and polygons", "area of a triangle, triangle area, polygon, trapezoid, parallelogram"),
+  skill("6.SP.B.5", "6", "math", "Mean, median and mode", "mean, median, mode, range, average, data set"),
+  skill("7.RP.A.2", "7", "math", "Proportional relationships", "proportion, proportional, constant of proportionality, scale factor"),
+  skill("7.NS.A.1", "7", "math", "Add and subtract integers", "integers, integer, adding integers, subtracting integers, negative numbers"),
+  skill("7.EE.B.4", "7", "math", "Two-step equations and inequalities", "two-step, inequality, inequalities, solve for x"),
+  skill("7.G.B.4", "7", "math", "Circles", "circle, circumference, radius, diameter, pi"),
+  skill("7.SP.C.5", "7", "math", "Probability", "probability, chance, likely, outcomes, random"),
+  skill("8.EE.A.1", "8", "math", "Exponents and scientific notation", "exponent, exponents, power, powers, scientific notation"),
+  skill("8.EE.A.2", "8", "math", "Square and cube roots", "square root, cube root, perfect square, irrational"),
+  skill("8.F.A.1", "8", "math", "Functions and slope", "function, functions, slope, linear, rate of change, y-intercept"),
+  skill("8.EE.C.8", "8", "math", "Systems of equations", "system of equations, systems of equations, simultaneous"),
+  skill("8.G.B.7", "8", "math", "Pythagorean theorem", "pythagorean, hypotenuse, right triangle, a squared plus b squared"),
+];
+
+// ---------- ELA ----------
+// The same strands run through every grade; the names change a little as kids get older
+const ELA: Skill[] = GRADES.flatMap((g): Skill[] => [
+  skill(`RL.${g}.1`, g, "reading", gradeNumber(g) >= 4 ? "Cite evidence from the text" : "Ask and answer about key details",
+    "key details, details, evidence, text says, quote, who what where when why"),
+  skill(`RL.${g}.2`, g, "reading", gradeNumber(g) >= 3 ? "Theme and summary" : "Retell stories",
+    "main idea, theme, summary, summarize, retell, lesson, moral"),
+  skill(`RL.${g}.3`, g, "reading", "Characters, setting and plot", "character, characters, setting, plot, events, problem and solution"),
+  skill(`RL.${g}.4`, g, "reading", "Word meaning in context",
+    "meaning, context clues, figurative, simile, metaphor, idiom, vocabulary, what does the word"),
+  skill(`RL.${g}.6`, g, "reading", "Point of view", "point of view, narrator, first person, third person, author's purpose"),
+  ...(gradeNumber(g) <= 5
+    ? [skill(`RF.${g}.3`, g, "reading", "Phonics and word analysis", "sound out, phonics, vowel, vowels, syllable, syllables, rhyme, prefix, suffix")]
+    : []),
+  skill(`W.${g}.1`, g, "writing", gradeNumber(g) >= 6 ? "Argument writing" : "Opinion writing",
+    "opinion, argument, persuade, persuasive, claim, reason, reasons"),
+  skill(`W.${g}.2`, g, "writing", "Informative writing", "informative, explain, report, facts, topic sentence"),
+  skill(`W.${g}.3`, g, "writing", "Narrative writing", "story, narrative, beginning middle end, dialogue, personal narrative"),
+  skill(`L.${g}.1`, g, "writing", "Grammar and usage", "noun, nouns, verb, verbs, adjective, adverb, pronoun, grammar, sentence, tense"),
+  skill(`L.${g}.2`, g, "writing", "Capitals, punctuation and spelling", "capital, capitals, punctuation, comma, commas, spelling, spell, apostrophe"),
+]);
+
+export const SKILLS: Skill[] = [...MATH, ...ELA];
+const BY_CODE = new Map(SKILLS.map(s => [s.code, s]));
+export const skillByCode = (code: string) => BY_CODE.get(code);
+
+// ---------- Classification ----------
+const DOMAINS: Record<string, SkillDomain[]> = {
+  math: ["math"], reading: ["reading"], writing: ["writing"], science: [], study: ["math", "reading", "writing"],
+};
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const PATTERNS = new Map(SKILLS.map(s => [s.code, s.keywords.map(k => /\w$/.test(k) ? new RegExp(`\\b${escape(k)}\\b`, "g") : new RegExp(escape(k), "g"))]));
+
+// Up to `max` skills for a piece of text, best match first. Math skills near the child's grade
+// (two below to one above) are considered, ELA skills only at it since every grade has each
+// strand; multi-word keywords count for more than single words.
+export function classifySkills(text: string, grade: GradeLevel, subject: string, max = 2): string[] {
+  const domains = DOMAINS[subject] ?? [];
+  const lower = text.toLowerCase();
+  const g = gradeNumber(grade);
+  const scored: { code: string; score: number }[] = [];
+  for (const s of SKILLS) {
+    const distance = g - gradeNumber(s.grade);
+    if (!domains.includes(s.domain) || distance > 2 || distance < -1 || (s.domain !== "math" && distance !== 0)) continue;
+    let score = 0;
+    s.keywords.forEach((k, i) => {
+      const hits = lower.match(PATTERNS.get(s.code)![i])?.length ?? 0;
+      score += Math.min(hits, 3) * (k.includes(" ") ? 2 : 1);
+    });
+    if (score > 0) scored.push({ code: s.code, score: score - Math.abs(distance) * 0.5 });
+  }
+  scored.sort((a, b) => b.score - a.score);
+  const best = scored[0]?.score ?? 0;
+  return scored.filter(s => s.score >= Math.max(1, best / 2)).slice(0, max).map(s => s.code);
+}
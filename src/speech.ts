@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { renderMarkdown } from "./markdown";
+import { verbalizeMath } from "./mathSpeech";
+
+// =============== Read aloud ===============
+// Answers are markdown with KaTeX math. Before anything is spoken it is rendered and walked
+// as DOM, so the voice reads what the child sees: no asterisks, math as words.
+
+export interface VoicePrefs {
+  voiceURI: string; // "" = the system default voice
+  rate: number;
+  pitch: number;
+}
+export const DEFAULT_VOICE: VoicePrefs = { voiceURI: "", rate: 1, pitch: 1 };
+
+export const speechSupported = () => typeof window !== "undefined" && "speechSynthesis" in window;
+
+// ---------- Sentences ----------
+export interface SpokenWord { text: string; start: number; el?: HTMLElement }
+export interface SpokenSentence { text: string; words: SpokenWord[] }
+
+const BLOCKS = new Set(["P", "LI", "H1", "H2", "H3", "H4", "H5", "H6", "PRE", "BLOCKQUOTE", "TR", "TD", "TH", "DIV", "BR", "HR", "UL", "OL", "TABLE"]);
+const SENTENCE_END = /[.!?:;]["'”’)\]]*$/;
+
+function toSentence(words: Omit<SpokenWord, "start">[]): SpokenSentence {
+  let start = 0;
+  const placed = words.map(w => { const word = { ...w, start }; start += w.text.length + 1; return word; });
+  return { text: placed.map(w => w.text).join(" "), words: placed };
+}
+
+// Split rendered content into sentences of words. With `wrap`, every word (and every formula)
+// gets an element to highlight, tagged with data-s = its sentence index.
+export function segmentSpeech(root: HTMLElement, wrap = false): SpokenSentence[] {
+  const doc = root.ownerDocument;
+  const sentences: SpokenSentence[] = [];
+  let current: Omit<SpokenWord, "start">[] = [];
+  const end = () => { if (current.length) sentences.push(toSentence(current)); current = []; };
+  const add = (text: string, el?: HTMLElement) => {
+    if (!text) return;
+    if (el) el.dataset.s = String(sentences.length);
+    current.push({ text, el });
+    if (SENTENCE_END.test(text)) end();
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const value = node.nodeValue ?? "";
+      if (!wrap) { for (const word of value.match(/\S+/g) ?? []) add(word); return; }
+      const words = doc.createDocumentFragment();
+      for (const part of value.split(/(\s+)/)) {
+        if (!part) continue;
+        if (/^\s+$/.test(part)) { words.append(part); continue; }
+        const span = doc.createElement("span");
+        span.className = "ra-word"; span.textContent = part;
+        words.append(span);
+        add(part, span);
+      }
+      node.parentNode?.replaceChild(words, node);
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+    if (node.classList.contains("katex")) {
+      const label = node.getAttribute("aria-label");
+      const tex = node.querySelector("annotation")?.textContent ?? node.textContent ?? "";
+      add(label ?? verbalizeMath(tex), wrap ? node : undefined);
+      return;
+    }
+    const block = BLOCKS.has(node.tagName);
+    if (block) end();
+    for (const child of [...node.childNodes]) visit(child);
+    if (block) end();
+  };
+  visit(root);
+  end();
+  return sentences;
+}
+
+// Markdown -> the plain text a voice should read
+export function spokenText(markdown: string) {
+  const doc = new DOMParser().parseFromString(`<div>${renderMarkdown(markdown)}</div>`, "text/html");
+  const root = doc.body.firstElementChild as HTMLElement;
+  return segmentSpeech(root).map(s => s.text).join(" ");
+}
+
+// ---------- Voices ----------
+export function utterance(text: string, prefs: VoicePrefs = DEFAULT_VOICE) {
+  const u = new SpeechSynthesisUtterance(text);
+  const voice = prefs.voiceURI ? window.speechSynthesis.getVoices().find(v => v.voiceURI === prefs.voiceURI) : undefined;
+  if (voice) { u.voice = voice; u.lang = voice.lang; }
+  u.rate = prefs.rate;
+  u.pitch = prefs.pitch;
+  return u;
+}
+
+// Read plain text (a word, a card) in one go
+export function speak(text: string, prefs?: VoicePrefs) {
+  if (!speechSupported()) return;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance(text, prefs));
+}
+
+// Installed voices; browsers load them asynchronously
+export function useVoices() {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  useEffect(() => {
+    if (!speechSupported()) return;
+    const update = () => setVoices(window.speechSynthesis.getVoices());
+    update();
+    window.speechSynthesis.addEventListener("voiceschanged", update);
+    return () => window.speechSynthesis.removeEventListener("voiceschanged", update);
+  }, []);
+  return voices;
+}
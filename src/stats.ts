@@ -0,0 +1,170 @@
+// =============== Progress stats (parent dashboard) ===============
+// Pure aggregation over session rows, so it works the same for local and cloud data.
+
+export const SUBJECTS = ["reading", "writing", "math", "science", "study"] as const;
+export type SubjectKey = (typeof SUBJECTS)[number];
+
+export interface SessionRow {
+  id: string;
+  profileId: string;
+  subject: string;
+  prompt: string;
+  createdAt: number;
+  confusingWords?: string[];
+  wins?: string[];
+  testResult?: { score: number; total: number };
+}
+
+export interface WeekStats {
+  weekStart: number;
+  sessions: number;
+  minutes: number;
+  bySubject: Record<SubjectKey, { sessions: number; minutes: number }>;
+  wins: string[];
+  trickyWords: string[];
+  tests: { taken: number; avgPercent: number | null };
+}
+
+export interface Summary {
+  weeks: WeekStats[];                       // oldest first, always `weekCount` long
+  topWords: { word: string; count: number }[];
+  wins: { at: number; text: string }[];     // newest first
+  trend: { sessions: number; minutes: number; testPercent: number | null }; // this week minus last week
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+// Sessions have no duration, so time is estimated: turns less than SITTING_GAP apart are one
+// sitting (first to last turn), plus TURN_MINUTES for reading the last answer.
+const SITTING_GAP = 15 * 60 * 1000;
+const TURN_MINUTES = 2;
+
+// Monday 00:00 local time
+export function weekStart(ms: number) {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+}
+
+function subjectKey(subject: string): SubjectKey {
+  return (SUBJECTS as readonly string[]).includes(subject) ? (subject as SubjectKey) : "study";
+}
+
+// Minutes per session, spread evenly across the turns of each sitting
+function estimateMinutes(rows: SessionRow[]): Map<string, number> {
+  const sorted = [...rows].sort((a, b) => a.createdAt - b.createdAt);
+  const minutes = new Map<string, number>();
+  let sitting: SessionRow[] = [];
+  const flush = () => {
+    if (!sitting.length) return;
+    const span = (sitting[sitting.length - 1].createdAt - sitting[0].createdAt) / 60000;
+    const each = (span + TURN_MINUTES) / sitting.length;
+    for (const r of sitting) minutes.set(r.id, each);
+    sitting = [];
+  };
+  for (const r of sorted) {
+    if (sitting.length && r.createdAt - sitting[sitting.length - 1].createdAt > SITTING_GAP) flush();
+    sitting.push(r);
+  }
+  flush();
+  return minutes;
+}
+
+function emptyWeek(start: number): WeekStats {
+  const bySubject = Object.fromEntries(SUBJECTS.map(s => [s, { sessions: 0, minutes: 0 }])) as WeekStats["bySubject"];
+  return { weekStart: start, sessions: 0, minutes: 0, bySubject, wins: [], trickyWords: [], tests: { taken: 0, avgPercent: null } };
+}
+
+export function summarize(rows: SessionRow[], weekCount = 8, now = Date.now()): Summary {
+  const thisWeek = weekStart(now);
+  const weeks = Array.from({ length: weekCount }, (_, i) => emptyWeek(weekStart(thisWeek - (weekCount - 1 - i) * 7 * DAY)));
+  const byStart = new Map(weeks.map(w => [w.weekStart, w]));
+  const minutes = estimateMinutes(rows);
+  const testPercents = new Map<number, number[]>();
+  const wordCounts = new Map<string, { word: string; count: number }>();
+  const wins: Summary["wins"] = [];
+
+  for (const r of rows) {
+    for (const w of r.confusingWords ?? []) {
+      const key = w.trim().toLowerCase();
+      if (!key) continue;
+      const entry = wordCounts.get(key) ?? { word: w.trim(), count: 0 };
+      entry.count++;
+      wordCounts.set(key, entry);
+    }
+    for (const text of r.wins ?? []) wins.push({ at: r.createdAt, text });
+
+    const week = byStart.get(weekStart(r.createdAt));
+    if (!week) continue;
+    const m = minutes.get(r.id) ?? TURN_MINUTES;
+    const subj = week.bySubject[subjectKey(r.subject)];
+    week.sessions++; week.minutes += m;
+    subj.sessions++; subj.minutes += m;
+    week.wins.push(...(r.wins ?? []));
+    week.trickyWords.push(...(r.confusingWords ?? []));
+    if (r.testResult && r.testResult.total > 0) {
+      const list = testPercents.get(week.weekStart) ?? [];
+      list.push((100 * r.testResult.score) / r.testResult.total);
+      testPercents.set(week.weekStart, list);
+    }
+  }
+  for (const w of weeks) {
+    const list = testPercents.get(w.weekStart) ?? [];
+    w.tests = { taken: list.length, avgPercent: list.length ? list.reduce((a, b) => a + b, 0) / list.length : null };
+  }
+
+  const [prev, cur] = weeks.slice(-2);
+  const trend = {
+    sessions: cur.sessions - (prev?.sessions ?? 0),
+    minutes: cur.minutes - (prev?.minutes ?? 0),
+    testPercent: cur.tests.avgPercent !== null && prev?.tests.avgPercent != null
+      ? cur.tests.avgPercent - prev.tests.avgPercent : null,
+  };
+
+  return {
+    weeks,
+    topWords: [...wordCounts.values()].sort((a, b) => b.count - a.count || a.word.localeCompare(b.word)).slice(0, 10),
+    wins: wins.sort((a, b) => b.at - a.at),
+    trend,
+  };
+}
+
+const fmtDate = (ms: number) => new Date(ms).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+export const fmtMinutes = (m: number) => (m >= 60 ? `${Math.floor(m / 60)} h ${Math.round(m % 60)} min` : `${Math.round(m)} min`);
+const signed = (n: number, unit = "") => `${n > 0 ? "+" : ""}${Math.round(n)}${unit}`;
+
+// Human-readable summary of the current week (Markdown; also used for printing)
+export function weeklyReport(profileName: string, summary: Summary) {
+  const week = summary.weeks[summary.weeks.length - 1];
+  const end = week.weekStart + 6 * DAY;
+  const lines = [
+    `# Weekly report: ${profileName}`,
+    `**Week of ${fmtDate(week.weekStart)} – ${fmtDate(end)}**`,
+    "",
+    `- Sessions: **${week.sessions}** (${signed(summary.trend.sessions)} vs last week)`,
+    `- Time (estimated): **${fmtMinutes(week.minutes)}** (${signed(summary.trend.minutes, " min")} vs last week)`,
+    week.tests.avgPercent !== null
+      ? `- Practice tests: **${week.tests.taken}**, average **${Math.round(week.tests.avgPercent)}%**` +
+        (summary.trend.testPercent !== null ? ` (${signed(summary.trend.testPercent, " pts")} vs last week)` : "")
+      : "- Practice tests: none this week",
+    "",
+    "## By subject",
+    "",
+    "| Subject | Sessions | Time |",
+    "| --- | --- | --- |",
+    ...SUBJECTS.map(s => `| ${s} | ${week.bySubject[s].sessions} | ${fmtMinutes(week.bySubject[s].minutes)} |`),
+    "",
+    "## Wins this week",
+    "",
+    ...(week.wins.length ? week.wins.map(w => `- ${w}`) : ["- (none logged)"]),
+    "",
+    "## Tricky words this week",
+    "",
+    week.trickyWords.length ? [...new Set(week.trickyWords)].join(", ") : "(none logged)",
+    "",
+    `## Most frequent tricky words (last ${summary.weeks.length} weeks)`,
+    "",
+    ...(summary.topWords.length ? summary.topWords.map(w => `- ${w.word} ×${w.count}`) : ["- (none logged)"]),
+  ];
+  return lines.join("\n");
+}
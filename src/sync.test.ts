@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { mergeSession } from "./sync";
+import type { SessionRecord } from "./sessions";
+
+const row = (fields: Partial<SessionRecord>): SessionRecord => ({
+  id: "s1", profileId: "p1", subject: "reading", prompt: "q", response: "a", createdAt: 1, updatedAt: 1, ...fields,
+});
+
+describe("mergeSession notes", () => {
+  it("keeps notes added on either device", () => {
+    const merged = mergeSession(row({ wins: ["read aloud"], updatedAt: 2 }), row({ wins: ["spelled it"], updatedAt: 3 }));
+    expect(merged.wins).toEqual(["spelled it", "read aloud"]);
+  });
+
+  it("doesn't bring back a note removed on the newer device", () => {
+    const local = row({ confusingWords: ["habitat", "orbit"], updatedAt: 2 });
+    const remote = row({ confusingWords: ["orbit"], removedNotes: ["confusingWords:habitat"], updatedAt: 3 });
+    expect(mergeSession(local, remote).confusingWords).toEqual(["orbit"]);
+    expect(mergeSession(remote, local).confusingWords).toEqual(["orbit"]);
+  });
+
+  it("lets a removed note be added again", () => {
+    const local = row({ wins: [], removedNotes: ["wins:great try"], updatedAt: 2 });
+    const remote = row({ wins: ["Great try"], updatedAt: 3 });
+    const merged = mergeSession(local, remote);
+    expect(merged.wins).toEqual(["Great try"]);
+    expect(merged.removedNotes).toBeUndefined();
+  });
+});
+
+describe("mergeSession tests", () => {
+  const test = { title: "Fractions", questions: [] };
+  it("keeps the test from whichever side has it", () => {
+    const local = row({ test, updatedAt: 2 });
+    const remote = row({ testResult: { answers: {}, results: [], score: 0, total: 0, gradedAt: 3 }, updatedAt: 3 });
+    const merged = mergeSession(local, remote);
+    expect(merged.test).toEqual(test);
+    expect(merged.testResult?.gradedAt).toBe(3);
+  });
+});
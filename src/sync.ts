@@ -0,0 +1,292 @@
+import { useEffect, useRef, useState } from "react";
+import { ensureDB } from "./db";
+import { supabase } from "./supabase";
+import type { PracticeTest, TestResult } from "./practiceTest";
+import {
+  NOTE_FIELDS, noteKey, sessions, sessionTombstones, SYNC_EVENT, type SessionNotes, type SessionRecord, type SessionTombstone,
+} from "./sessions";
+
+// =============== Session sync ===============
+// Two-way, incremental sync between the local `sessions` store and sessions_cloud.
+// - Local writes stamp `updatedAt` and set `pending: 1`; only pending rows are pushed.
+// - Deletions leave a tombstone (locally in `sessionTombstones`, in the cloud as `deleted_at`).
+// - Pulls only fetch rows the server changed after this profile's cursor (`synced_at`).
+// - When both sides changed a row, the newer edit wins and notes are unioned, so every
+//   device ends up with the same result regardless of sync order.
+
+interface CloudSessionRow {
+  id: string;
+  household_id: string;
+  profile_id: string;
+  subject: string;
+  prompt: string;
+  response: string;
+  confusing_words: string[] | null;
+  wins: string[] | null;
+  misses: string[] | null;
+  skills: string[] | null;
+  removed_notes: string[] | null;
+  test: PracticeTest | null;
+  test_result: TestResult | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at?: string;
+}
+
+const PAGE_SIZE = 500;
+// Rows committed slightly out of order can carry a synced_at just behind the cursor;
+// re-reading a short window is harmless because merging is idempotent.
+const CURSOR_OVERLAP_MS = 30 * 1000;
+const RETRY_MS = 60 * 1000;
+
+// Per household too, so signing in to another one on this device pulls its rows from the start
+const cursorKey = (householdId: string, profileId: string) => `sessionSyncCursor:${householdId}:${profileId}`;
+
+function unionNotes(first?: string[], second?: string[]) {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const w of [...(first ?? []), ...(second ?? [])]) {
+    const key = w.trim().toLowerCase();
+    if (!seen.has(key)) { seen.add(key); out.push(w); }
+  }
+  return out;
+}
+
+const content = (r: SessionRecord) => JSON.stringify([
+  r.subject, r.prompt, r.response, r.confusingWords ?? [], r.wins ?? [], r.misses ?? [], r.skills ?? [], r.removedNotes ?? [], r.test ?? null, r.testResult ?? null, r.updatedAt,
+]);
+
+export const sameContent = (a: SessionRecord, b: SessionRecord) => content(a) === content(b);
+
+// Newer edit wins field by field; notes are unioned (newer side first), except ones removed by
+// hand: those stay removed unless the newer side has them again.
+// Equal timestamps fall back to comparing content, which keeps the choice the same on every device.
+export function mergeSession(local: SessionRecord, remote: SessionRecord): SessionRecord {
+  const remoteNewer = remote.updatedAt !== local.updatedAt
+    ? remote.updatedAt > local.updatedAt
+    : content(remote) > content(local);
+  const [newer, older] = remoteNewer ? [remote, local] : [local, remote];
+  const readded = new Set(NOTE_FIELDS.flatMap(f => (newer[f] ?? []).map(n => noteKey(f, n))));
+  const removed = unionNotes(newer.removedNotes, (older.removedNotes ?? []).filter(k => !readded.has(k)));
+  const notes = (f: keyof SessionNotes) => unionNotes(newer[f], older[f]).filter(n => !removed.includes(noteKey(f, n)));
+  const merged: SessionRecord = {
+    ...older, ...newer,
+    confusingWords: notes("confusingWords"),
+    wins: notes("wins"),
+    misses: notes("misses"),
+    skills: unionNotes(newer.skills, older.skills),
+    removedNotes: removed.length ? removed : undefined,
+    test: newer.test ?? older.test,
+    testResult: newer.testResult ?? older.testResult,
+    updatedAt: newer.updatedAt,
+  };
+  delete merged.pending;
+  return merged;
+}
+
+function fromCloud(r: CloudSessionRow): SessionRecord {
+  return {
+    id: r.id,
+    profileId: r.profile_id,
+    subject: r.subject,
+    prompt: r.prompt,
+    response: r.response,
+    confusingWords: r.confusing_words ?? undefined,
+    wins: r.wins ?? undefined,
+    misses: r.misses ?? undefined,
+    skills: r.skills ?? undefined,
+    removedNotes: r.removed_notes ?? undefined,
+    ...(r.test ? { test: r.test } : {}),
+    ...(r.test_result ? { testResult: r.test_result } : {}),
+    createdAt: new Date(r.created_at).getTime(),
+    updatedAt: new Date(r.updated_at ?? r.created_at).getTime(),
+  };
+}
+function toCloud(householdId: string, r: SessionRecord): CloudSessionRow {
+  return {
+    id: r.id,
+    household_id: householdId,
+    profile_id: r.profileId,
+    subject: r.subject,
+    prompt: r.prompt,
+    response: r.response,
+    confusing_words: r.confusingWords ?? null,
+    wins: r.wins ?? null,
+    misses: r.misses ?? null,
+    skills: r.skills ?? null,
+    removed_notes: r.removedNotes ?? null,
+    test: r.test ?? null,
+    test_result: r.testResult ?? null,
+    created_at: new Date(r.createdAt).toISOString(),
+    updated_at: new Date(r.updatedAt).toISOString(),
+    deleted_at: null,
+  };
+}
+// Deleted rows keep only what's needed to identify them
+function tombstoneToCloud(householdId: string, t: SessionTombstone): CloudSessionRow {
+  return {
+    id: t.id,
+    household_id: householdId,
+    profile_id: t.profileId,
+    subject: "",
+    prompt: "",
+    response: "",
+    confusing_words: null,
+    wins: null,
+    misses: null,
+    skills: null,
+    removed_notes: null,
+    test: null,
+    test_result: null,
+    created_at: new Date(t.createdAt).toISOString(),
+    updated_at: new Date(t.deletedAt).toISOString(),
+    deleted_at: new Date(t.deletedAt).toISOString(),
+  };
+}
+
+// Fetch everything the server changed since the cursor and fold it into the local store
+async function pullSessions(householdId: string, profileId: string) {
+  const cursor = localStorage.getItem(cursorKey(householdId, profileId));
+  const since = cursor ? new Date(new Date(cursor).getTime() - CURSOR_OVERLAP_MS).toISOString() : null;
+  let newest = cursor;
+  let changed = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from("sessions_cloud")
+      .select("*")
+      .eq("household_id", householdId)
+      .eq("profile_id", profileId);
+    if (since) query = query.gt("synced_at", since);
+    const { data, error } = await query
+      .order("synced_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    const rows = (data ?? []) as CloudSessionRow[];
+
+    const db = await ensureDB();
+    const tx = db.transaction([sessions.name, sessionTombstones.name], "readwrite");
+    const store = tx.objectStore(sessions.name);
+    const tombstones = tx.objectStore(sessionTombstones.name);
+    for (const row of rows) {
+      if (row.synced_at && (!newest || row.synced_at > newest)) newest = row.synced_at;
+      const local = sessions.read(await store.get(row.id));
+
+      if (row.deleted_at) {
+        // Deleted elsewhere: drop our copy unless it was edited after the deletion
+        if (local && local.updatedAt <= new Date(row.deleted_at).getTime()) { await store.delete(row.id); changed++; }
+        continue;
+      }
+      const remote = fromCloud(row);
+      const gone = sessionTombstones.read(await tombstones.get(row.id));
+      if (gone && gone.deletedAt >= remote.updatedAt) continue; // our deletion is pushed next
+      if (!local) { await store.put(remote); changed++; continue; }
+
+      const merged = mergeSession(local, remote);
+      if (content(merged) === content(local)) continue;
+      // Keep it queued if the cloud copy is still missing something we have
+      await store.put(content(merged) === content(remote) ? merged : { ...merged, pending: 1 });
+      changed++;
+    }
+    await tx.done;
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  if (newest) localStorage.setItem(cursorKey(householdId, profileId), newest);
+  return changed;
+}
+
+// Push pending edits and deletions, then clear their markers
+async function pushSessions(householdId: string, profileId: string) {
+  const pending = await sessions.all("by_profile_pending", IDBKeyRange.only([profileId, 1]));
+  const deleted = await sessionTombstones.all("by_profile", profileId);
+  const rows = [
+    ...pending.map(r => toCloud(householdId, r)),
+    ...deleted.map(t => tombstoneToCloud(householdId, t)),
+  ];
+  if (!rows.length) return 0;
+
+  for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+    const { error } = await supabase.from("sessions_cloud").upsert(rows.slice(i, i + PAGE_SIZE), { onConflict: "id" });
+    if (error) throw new Error(error.message);
+  }
+
+  const db = await ensureDB();
+  const tx = db.transaction([sessions.name, sessionTombstones.name], "readwrite");
+  for (const r of pending) {
+    // Rows edited again while the push was in flight stay pending
+    const now = sessions.read(await tx.objectStore(sessions.name).get(r.id));
+    if (now && now.updatedAt === r.updatedAt) {
+      const synced = { ...now };
+      delete synced.pending;
+      await tx.objectStore(sessions.name).put(synced);
+    }
+  }
+  for (const t of deleted) await tx.objectStore(sessionTombstones.name).delete(t.id);
+  await tx.done;
+  return rows.length;
+}
+
+// Pull first so a push never overwrites a newer cloud edit we haven't merged yet
+export async function syncSessions(householdId: string, profileId: string) {
+  const pulled = await pullSessions(householdId, profileId);
+  const pushed = await pushSessions(householdId, profileId);
+  return { pulled, pushed };
+}
+
+export type SyncStatus = "signed-out" | "offline" | "syncing" | "synced" | "error";
+
+// Keeps the active profile in sync: on start, on sign-in, when the browser comes back
+// online, and shortly after local changes (see requestSync)
+export function useSessionSync(profileId: string, householdId: string | null, onPulled: () => void) {
+  const [status, setStatus] = useState<SyncStatus>("signed-out");
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const onPulledRef = useRef(onPulled);
+  useEffect(() => { onPulledRef.current = onPulled; }, [onPulled]);
+
+  useEffect(() => {
+    if (!householdId) { setStatus("signed-out"); return; }
+    const household = householdId;
+    let cancelled = false;
+    let running = false;
+    let again = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    async function run() {
+      if (!navigator.onLine) { setStatus("offline"); return; }
+      if (running) { again = true; return; }
+      running = true;
+      setStatus("syncing");
+      try {
+        const { pulled } = await syncSessions(household, profileId);
+        if (cancelled) return;
+        setStatus("synced"); setLastSyncedAt(Date.now());
+        if (pulled > 0) onPulledRef.current();
+      } catch (e) {
+        console.warn("Session sync failed:", e);
+        if (!cancelled) { setStatus("error"); clearTimeout(timer); timer = setTimeout(run, RETRY_MS); }
+      } finally {
+        running = false;
+        if (again && !cancelled) { again = false; run(); }
+      }
+    }
+    const soon = () => { clearTimeout(timer); timer = setTimeout(run, 2000); };
+    const offline = () => setStatus("offline");
+
+    run();
+    window.addEventListener("online", run);
+    window.addEventListener("offline", offline);
+    window.addEventListener(SYNC_EVENT, soon);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      window.removeEventListener("online", run);
+      window.removeEventListener("offline", offline);
+      window.removeEventListener(SYNC_EVENT, soon);
+    };
+  }, [profileId, householdId]);
+
+  return { status, lastSyncedAt };
+}
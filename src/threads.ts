@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { defineStore } from "./db";
+import { SUBJECTS, type SubjectKey } from "./stats";
+
+// =============== Conversation threads ===============
+// One running thread per profile + subject, so follow-ups build on what the tutor already said.
+const TurnSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  at: z.number(),
+});
+const ThreadSchema = z.object({
+  id: z.string(),        // `${profileId}:${subject}`
+  profileId: z.string(),
+  subject: z.enum(SUBJECTS),
+  turns: z.array(TurnSchema),
+  updatedAt: z.number(),
+});
+export type Turn = z.infer<typeof TurnSchema>;
+export type Thread = z.infer<typeof ThreadSchema>;
+
+export const threads = defineStore({
+  name: "threads",
+  keyPath: "id",
+  indexes: { by_profile: "profileId" },
+  schema: ThreadSchema,
+  version: 2,
+});
+
+// Keep in step with MAX_HISTORY_TURNS / Turn in netlify/functions/tutor.ts
+const MAX_HISTORY_TURNS = 12;
+const MAX_TURN_CHARS = 6000;
+
+function threadId(profileId: string, subject: SubjectKey) { return `${profileId}:${subject}`; }
+export function emptyThread(profileId: string, subject: SubjectKey): Thread {
+  return { id: threadId(profileId, subject), profileId, subject, turns: [], updatedAt: Date.now() };
+}
+export async function loadThread(profileId: string, subject: SubjectKey): Promise<Thread> {
+  return (await threads.get(threadId(profileId, subject))) ?? emptyThread(profileId, subject);
+}
+export async function appendTurns(profileId: string, subject: SubjectKey, turns: Turn[]): Promise<Thread> {
+  const current = await loadThread(profileId, subject);
+  const next: Thread = { ...current, turns: [...current.turns, ...turns], updatedAt: Date.now() };
+  await threads.put(next);
+  return next;
+}
+export async function resetThread(profileId: string, subject: SubjectKey) {
+  await threads.delete(threadId(profileId, subject));
+}
+export async function clearThreads(profileId: string) {
+  for (const key of await threads.keys("by_profile", profileId)) await threads.delete(key);
+}
+// The bounded slice of a thread that gets sent along with the next question
+export function historyFor(thread: Thread | null) {
+  if (!thread) return [];
+  return thread.turns
+    .slice(-MAX_HISTORY_TURNS)
+    .map(t => ({ role: t.role, content: t.content.slice(0, MAX_TURN_CHARS) }));
+}
@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { defineStore, ensureDB } from "./db";
+import { postTutor } from "./api";
+import { flagsOf, logFlags, readFlagged, type Strictness } from "./moderation";
+import { profileRange, sessions } from "./sessions";
+
+// =============== Tricky-word deck (spaced repetition) ===============
+// Cards are collected from every session's confusingWords and scheduled with SM-2.
+const RatingSchema = z.enum(["again", "hard", "good", "easy"]);
+const VocabCardSchema = z.object({
+  id: z.string(),                   // `${profileId}:${word}` (lowercase), so a word is only added once
+  profileId: z.string(),
+  word: z.string(),
+  definition: z.string().optional(), // filled in by the tutor function
+  example: z.string().optional(),
+  ease: z.number(),                 // SM-2 easiness factor, >= 1.3
+  interval: z.number(),             // days until the next review
+  reps: z.number(),                 // successful reviews in a row
+  due: z.number(),                  // ms timestamp
+  createdAt: z.number(),
+  reviews: z.array(z.object({ at: z.number(), rating: RatingSchema })),
+});
+export type Rating = z.infer<typeof RatingSchema>;
+export type VocabCard = z.infer<typeof VocabCardSchema>;
+export type Review = VocabCard["reviews"][number];
+
+export const vocab = defineStore({
+  name: "vocab",
+  keyPath: "id",
+  indexes: { by_profile_due: ["profileId", "due"] },
+  schema: VocabCardSchema,
+  version: 3,
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+// Kid-friendly buttons mapped onto SM-2's 0–5 recall quality
+const QUALITY: Record<Rating, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+function startOfDay(ms: number) { const d = new Date(ms); d.setHours(0, 0, 0, 0); return d.getTime(); }
+function cardId(profileId: string, word: string) { return `${profileId}:${word.toLowerCase()}`; }
+
+// SM-2: a miss starts the word over; a hit grows the gap by the ease factor
+export function schedule(card: VocabCard, rating: Rating, now = Date.now()): VocabCard {
+  const q = QUALITY[rating];
+  const reps = q < 3 ? 0 : card.reps + 1;
+  const interval = q < 3 ? 1 : reps === 1 ? 1 : reps === 2 ? 6 : Math.round(card.interval * card.ease);
+  const ease = Math.max(1.3, card.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+  return {
+    ...card, reps, interval, ease,
+    due: startOfDay(now) + interval * DAY,
+    reviews: [...card.reviews, { at: now, rating }],
+  };
+}
+
+// Add a card for every tricky word in the profile's sessions that isn't in the deck yet
+export async function collectDeck(profileId: string) {
+  const rows = await sessions.all("by_profile_created", profileRange(profileId));
+  const words = new Map<string, string>();
+  for (const s of rows) {
+    for (const w of s.confusingWords ?? []) {
+      const word = w.trim();
+      if (word && !words.has(word.toLowerCase())) words.set(word.toLowerCase(), word);
+    }
+  }
+
+  const now = Date.now();
+  const db = await ensureDB();
+  const tx = db.transaction(vocab.name, "readwrite");
+  let added = 0;
+  for (const word of words.values()) {
+    const id = cardId(profileId, word);
+    if (await tx.store.getKey(id)) continue;
+    const card: VocabCard = { id, profileId, word, ease: 2.5, interval: 0, reps: 0, due: now, createdAt: now, reviews: [] };
+    await tx.store.put(vocab.parse(card));
+    added++;
+  }
+  await tx.done;
+  return added;
+}
+
+// Cards due any time today, oldest first
+export function loadDueCards(profileId: string, now = Date.now()): Promise<VocabCard[]> {
+  return vocab.all("by_profile_due", profileRange(profileId, -Infinity, startOfDay(now) + DAY - 1));
+}
+
+export function countCards(profileId: string) {
+  return vocab.count("by_profile_due", profileRange(profileId));
+}
+
+export async function saveCard(card: VocabCard) {
+  await vocab.put(card);
+}
+
+// Writes only the definition fields, over the stored card: it may have been rated (and
+// rescheduled) while the tutor function was answering
+async function saveDefinition(id: string, definition: string, example: string) {
+  const db = await ensureDB();
+  const tx = db.transaction(vocab.name, "readwrite");
+  const current = vocab.read(await tx.store.get(id));
+  const next = current && { ...current, definition, example };
+  if (next) await tx.store.put(vocab.parse(next));
+  await tx.done;
+  return next;
+}
+
+// Ask the tutor function for a definition + example; keeps the card as-is on failure
+export async function defineCard(card: VocabCard, profile: { id: string; grade: string; dyslexiaAssist: boolean; safety: Strictness }) {
+  try {
+    const r = await postTutor({ profile, subject: "reading", message: card.word, kind: "define" });
+    const blocked = await readFlagged(r);
+    if (blocked) await logFlags(card.profileId, "reading", [blocked.flag]);
+    if (!r.ok) return card;
+    const body = await r.json();
+    await logFlags(card.profileId, "reading", flagsOf(body));
+    const def = body.card;
+    if (!def?.definition) return card;
+    return (await saveDefinition(card.id, String(def.definition), String(def.example ?? ""))) ?? card;
+  } catch {
+    return card;
+  }
+}
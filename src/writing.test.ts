@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { diffWords, highlightSegments, type WritingComment } from "./writing";
+
+const comment = (quote: string): WritingComment => ({ trait: "conventions", quote, comment: "c" });
+
+describe("highlightSegments", () => {
+  it("marks each quote where it appears in the draft", () => {
+    const draft = "I like dogs. they are fun.";
+    expect(highlightSegments(draft, [comment("they are fun"), comment("I like")])).toEqual([
+      { text: "I like", comments: [1] },
+      { text: " dogs. ", comments: [] },
+      { text: "they are fun", comments: [0] },
+      { text: ".", comments: [] },
+    ]);
+  });
+
+  it("finds a quote whose spacing the model tidied up, and lets quotes overlap", () => {
+    const draft = "The dog ran\nvery fast.";
+    expect(highlightSegments(draft, [comment("ran very fast"), comment("dog ran")])).toEqual([
+      { text: "The ", comments: [] },
+      { text: "dog ", comments: [1] },
+      { text: "ran", comments: [0, 1] },
+      { text: "\nvery fast", comments: [0] },
+      { text: ".", comments: [] },
+    ]);
+  });
+
+  it("leaves the draft as it is for quotes that aren't in it", () => {
+    expect(highlightSegments("Hello there.", [comment("goodbye"), comment("")])).toEqual([{ text: "Hello there.", comments: [] }]);
+  });
+});
+
+describe("diffWords", () => {
+  it("shows words added and removed between revisions", () => {
+    expect(diffWords("The dog ran fast.", "The big dog ran.")).toEqual([
+      { kind: "same", text: "The " },
+      { kind: "added", text: "big " },
+      { kind: "same", text: "dog " },
+      { kind: "removed", text: "ran fast." },
+      { kind: "added", text: "ran." },
+    ]);
+  });
+
+  it("ignores changes in spacing", () => {
+    expect(diffWords("one two", "one  two")).toEqual([{ kind: "same", text: "one  two" }]);
+  });
+});
@@ -0,0 +1,174 @@
+import { z } from "zod";
+import { defineStore } from "./db";
+import { limitMessage, postTutor } from "./api";
+import { flagsOf, logFlags, readFlagged, type Strictness } from "./moderation";
+import { subjectNote, type PromptSettings } from "./prompts";
+import { profileRange } from "./sessions";
+
+// =============== Writing coach ===============
+// A piece of writing and every revision of it, each with the rubric feedback it got from the
+// tutor function (see netlify/lib/writing.ts). Kept on this device.
+export const MAX_DRAFT_LENGTH = 6000;
+export const TRAITS = ["ideas", "organization", "conventions", "word_choice"] as const;
+export type Trait = (typeof TRAITS)[number];
+export const TRAIT_LABELS: Record<Trait, string> = {
+  ideas: "Ideas",
+  organization: "Organization",
+  conventions: "Conventions",
+  word_choice: "Word choice",
+};
+export const SCORE_LABELS = ["", "Just starting", "Getting there", "On target", "Above target"];
+
+const Score = z.number().int().min(1).max(4);
+export const WritingFeedbackSchema = z.object({
+  summary: z.string(),
+  scores: z.object({ ideas: Score, organization: Score, conventions: Score, word_choice: Score }),
+  comments: z.array(z.object({
+    trait: z.enum(TRAITS),
+    quote: z.string(),
+    comment: z.string(),
+    suggestion: z.string().optional(),
+  })),
+  nextStep: z.string(),
+});
+export type WritingFeedback = z.infer<typeof WritingFeedbackSchema>;
+export type WritingComment = WritingFeedback["comments"][number];
+
+const RevisionSchema = z.object({
+  at: z.number(),
+  draft: z.string(),
+  feedback: WritingFeedbackSchema.optional(),
+});
+const WritingPieceSchema = z.object({
+  id: z.string(),
+  profileId: z.string(),
+  title: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  revisions: z.array(RevisionSchema), // oldest first
+});
+export type Revision = z.infer<typeof RevisionSchema>;
+export type WritingPiece = z.infer<typeof WritingPieceSchema>;
+
+export const writingPieces = defineStore({
+  name: "writingPieces",
+  keyPath: "id",
+  indexes: { by_profile_updated: ["profileId", "updatedAt"] },
+  schema: WritingPieceSchema,
+  version: 6,
+});
+
+// ---------- Pieces ----------
+export async function loadPieces(profileId: string) {
+  return (await writingPieces.all("by_profile_updated", profileRange(profileId))).reverse(); // newest first
+}
+export function newPiece(profileId: string, title: string): WritingPiece {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), profileId, title, createdAt: now, updatedAt: now, revisions: [] };
+}
+export async function addRevision(piece: WritingPiece, revision: Revision) {
+  const next = { ...piece, updatedAt: revision.at, revisions: [...piece.revisions, revision] };
+  await writingPieces.put(next);
+  return next;
+}
+export async function deletePiece(id: string) {
+  await writingPieces.delete(id);
+}
+
+// ---------- Feedback ----------
+export type FeedbackResult = { ok: true; feedback: WritingFeedback } | { ok: false; message: string };
+
+export async function requestFeedback(
+  profile: { id: string; grade: string; dyslexiaAssist: boolean; safety: Strictness; prompts: PromptSettings },
+  title: string,
+  draft: string,
+  previous?: string,
+): Promise<FeedbackResult> {
+  try {
+    const r = await postTutor({
+      profile: { id: profile.id, grade: profile.grade, dyslexiaAssist: profile.dyslexiaAssist, safety: profile.safety },
+      subject: "writing", message: title.slice(0, 400), kind: "writing", draft, previous,
+      subjectNote: subjectNote(profile.prompts, "writing"),
+    });
+    const blocked = await readFlagged(r);
+    if (blocked) {
+      await logFlags(profile.id, "writing", [blocked.flag]);
+      return { ok: false, message: blocked.message };
+    }
+    const limited = await limitMessage(r);
+    if (limited) return { ok: false, message: limited };
+    if (!r.ok) throw new Error("proxy");
+    const body = await r.json();
+    await logFlags(profile.id, "writing", flagsOf(body));
+    const parsed = WritingFeedbackSchema.safeParse(body.feedback);
+    if (!parsed.success) throw new Error("bad_feedback");
+    return { ok: true, feedback: parsed.data };
+  } catch {
+    return { ok: false, message: "Couldn’t get feedback right now. Please try again." };
+  }
+}
+
+// ---------- Highlights ----------
+// The draft cut into runs of text, each with the comments (by index) whose quote covers it
+export interface Segment { text: string; comments: number[] }
+
+export function highlightSegments(draft: string, comments: WritingComment[]): Segment[] {
+  const marks = new Array<number[]>(draft.length).fill([]);
+  const lower = draft.toLowerCase();
+  comments.forEach((c, i) => {
+    const quote = c.quote.trim();
+    if (!quote) return;
+    let at = lower.indexOf(quote.toLowerCase());
+    if (at < 0) {
+      // The model may have tidied up spacing; match across any run of whitespace instead
+      const pattern = quote.split(/\s+/).map(w => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("\\s+");
+      const m = new RegExp(pattern, "i").exec(draft);
+      if (!m) return;
+      at = m.index;
+      for (let k = at; k < at + m[0].length; k++) marks[k] = [...marks[k], i];
+      return;
+    }
+    for (let k = at; k < at + quote.length; k++) marks[k] = [...marks[k], i];
+  });
+  const segments: Segment[] = [];
+  for (let k = 0; k < draft.length; k++) {
+    const last = segments[segments.length - 1];
+    if (last && last.comments.join() === marks[k].join()) last.text += draft[k];
+    else segments.push({ text: draft[k], comments: marks[k] });
+  }
+  return segments;
+}
+
+// ---------- Revisions ----------
+export interface DiffPart { kind: "same" | "added" | "removed"; text: string }
+
+// Word-level diff (longest common subsequence); spaces and line breaks travel with their word
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\s*\S+\s*|\s+/g) ?? [];
+  const b = after.match(/\s*\S+\s*|\s+/g) ?? [];
+  const key = (t: string) => t.trim();
+  const cols = b.length + 1;
+  const lcs = new Uint16Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = key(a[i]) === key(b[j])
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart["kind"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ kind, text });
+  };
+  let i = 0, j = 0;
+  while (i < a.length && j < b.length) {
+    if (key(a[i]) === key(b[j])) { push("same", b[j]); i++; j++; }
+    else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) push("removed", a[i++]);
+    else push("added", b[j++]);
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return parts;
+}
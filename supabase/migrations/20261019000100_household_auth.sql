@@ -0,0 +1,30 @@
+-- Household-scoped cloud sessions.
+-- Each parent account (a Supabase Auth user) is one household; every row in
+-- sessions_cloud belongs to exactly one household and is only visible to it.
+
+alter table public.sessions_cloud
+  add column if not exists household_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+create index if not exists sessions_cloud_household_profile_created_idx
+  on public.sessions_cloud (household_id, profile_id, created_at desc);
+
+alter table public.sessions_cloud enable row level security;
+
+-- Drop any earlier open policies (the table used to be readable with the anon key)
+drop policy if exists "sessions_cloud_select_own" on public.sessions_cloud;
+drop policy if exists "sessions_cloud_insert_own" on public.sessions_cloud;
+drop policy if exists "sessions_cloud_update_own" on public.sessions_cloud;
+drop policy if exists "sessions_cloud_delete_own" on public.sessions_cloud;
+
+create policy "sessions_cloud_select_own" on public.sessions_cloud
+  for select to authenticated using (household_id = auth.uid());
+create policy "sessions_cloud_insert_own" on public.sessions_cloud
+  for insert to authenticated with check (household_id = auth.uid());
+create policy "sessions_cloud_update_own" on public.sessions_cloud
+  for update to authenticated using (household_id = auth.uid()) with check (household_id = auth.uid());
+create policy "sessions_cloud_delete_own" on public.sessions_cloud
+  for delete to authenticated using (household_id = auth.uid());
+
+-- Rows synced before this migration have no household and are hidden by RLS.
+-- Claim them for a household with:
+--   update public.sessions_cloud set household_id = '<parent user id>' where household_id is null;
@@ -0,0 +1,37 @@
+-- Household profiles and their display preferences, shared across devices.
+-- Profile ids are client-generated UUIDs and match sessions_cloud.profile_id.
+-- Deleted profiles stay as rows with deleted = true so other devices drop them too.
+
+create table if not exists public.profiles_cloud (
+  id uuid primary key,
+  household_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  name text not null,
+  grade text not null,
+  dyslexia_assist boolean not null default false,
+  prefs jsonb not null default '{}'::jsonb,
+  deleted boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists profiles_cloud_household_idx
+  on public.profiles_cloud (household_id);
+
+alter table public.profiles_cloud enable row level security;
+
+drop policy if exists "profiles_cloud_select_own" on public.profiles_cloud;
+drop policy if exists "profiles_cloud_insert_own" on public.profiles_cloud;
+drop policy if exists "profiles_cloud_update_own" on public.profiles_cloud;
+drop policy if exists "profiles_cloud_delete_own" on public.profiles_cloud;
+
+create policy "profiles_cloud_select_own" on public.profiles_cloud
+  for select to authenticated using (household_id = auth.uid());
+create policy "profiles_cloud_insert_own" on public.profiles_cloud
+  for insert to authenticated with check (household_id = auth.uid());
+create policy "profiles_cloud_update_own" on public.profiles_cloud
+  for update to authenticated using (household_id = auth.uid()) with check (household_id = auth.uid());
+create policy "profiles_cloud_delete_own" on public.profiles_cloud
+  for delete to authenticated using (household_id = auth.uid());
+
+-- Sessions synced before profiles had stable ids carry local ids such as 'p1'.
+-- Each device re-keys its own data on first launch; stale cloud rows can be moved with:
+--   update public.sessions_cloud set profile_id = '<profile uuid>' where profile_id = 'p1' and household_id = auth.uid();
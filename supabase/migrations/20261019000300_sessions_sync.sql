@@ -0,0 +1,31 @@
+-- Incremental session sync.
+-- updated_at: when the row was last edited on a device (newer edit wins on conflicts)
+-- deleted_at: set instead of deleting, so other devices learn about the deletion
+-- synced_at:  set by the server on every write; clients pull rows newer than their cursor
+
+alter table public.sessions_cloud
+  add column if not exists updated_at timestamptz,
+  add column if not exists deleted_at timestamptz,
+  add column if not exists test_result jsonb,
+  add column if not exists synced_at timestamptz not null default now();
+
+update public.sessions_cloud set updated_at = created_at where updated_at is null;
+alter table public.sessions_cloud
+  alter column updated_at set default now(),
+  alter column updated_at set not null;
+
+create or replace function public.sessions_cloud_touch_synced_at()
+returns trigger language plpgsql as $$
+begin
+  new.synced_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists sessions_cloud_synced_at on public.sessions_cloud;
+create trigger sessions_cloud_synced_at
+  before insert or update on public.sessions_cloud
+  for each row execute function public.sessions_cloud_touch_synced_at();
+
+create index if not exists sessions_cloud_household_profile_synced_idx
+  on public.sessions_cloud (household_id, profile_id, synced_at);
@@ -0,0 +1,8 @@
+-- Per-profile content filter level, sent to the tutor function with every request.
+-- 'relaxed': strong language only, personal info is redacted instead of blocked
+-- 'standard': also mild language, personal info is blocked
+-- 'strict': also unkind words
+
+alter table public.profiles_cloud
+  add column if not exists safety text not null default 'standard'
+    check (safety in ('relaxed', 'standard', 'strict'));
@@ -0,0 +1,20 @@
+-- Token usage per tutor request, written by the Netlify function with the service role key
+-- (SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY in the function's environment).
+-- Used for per-minute rate limits, daily/monthly budgets and the parent dashboard's spend view.
+-- RLS is on with no policies: browsers never read or write this table directly.
+
+create table if not exists public.tutor_usage (
+  id bigint generated always as identity primary key,
+  profile_id text not null,
+  at timestamptz not null default now(),
+  kind text not null check (kind in ('chat', 'test', 'define')),
+  model text not null,
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  cost_usd numeric(12, 6) not null default 0
+);
+
+create index if not exists tutor_usage_profile_at_idx
+  on public.tutor_usage (profile_id, at);
+
+alter table public.tutor_usage enable row level security;
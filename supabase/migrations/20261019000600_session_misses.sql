@@ -0,0 +1,5 @@
+-- Check questions a child answered wrong, next to wins (answers checked in the browser, see src/arithmetic.ts).
+-- Unioned across devices like confusing_words and wins.
+
+alter table public.sessions_cloud
+  add column if not exists misses text[];
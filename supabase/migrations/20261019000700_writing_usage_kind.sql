@@ -0,0 +1,5 @@
+-- Writing coach requests (kind 'writing') are metered like chat, tests and definitions.
+
+alter table public.tutor_usage drop constraint if exists tutor_usage_kind_check;
+alter table public.tutor_usage
+  add constraint tutor_usage_kind_check check (kind in ('chat', 'test', 'define', 'writing'));
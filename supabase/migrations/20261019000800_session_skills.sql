@@ -0,0 +1,5 @@
+-- Curriculum skills (standard codes such as 3.NF.A.1) a tutor turn or practice test was about,
+-- tagged in the browser from the bundled catalog (see src/skills.ts).
+
+alter table public.sessions_cloud
+  add column if not exists skills text[];
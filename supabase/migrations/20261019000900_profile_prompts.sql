@@ -0,0 +1,6 @@
+-- Per-profile prompt templates (parent setting): quick-action buttons and a note per subject,
+-- e.g. {"actions":[{"id":"hint","label":"Hint","template":"..."}],"subjectNotes":{"reading":"..."}}.
+-- Null = the app's defaults. The tutor function checks lengths again on every request.
+
+alter table public.profiles_cloud
+  add column if not exists prompts jsonb;
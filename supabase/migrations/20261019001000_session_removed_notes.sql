@@ -0,0 +1,5 @@
+-- Notes (tricky words, wins, missed checks) removed by hand in the history browser, as
+-- "<field>:<note>" keys, so merging with another device's copy doesn't bring them back.
+
+alter table public.sessions_cloud
+  add column if not exists removed_notes text[];
@@ -0,0 +1,10 @@
+-- Budgets are checked per account instead of per profile id (which the browser chooses):
+-- 'household:<auth user id>' when the request carries a signed-in parent's token, otherwise
+-- 'ip:<client address>'. profile_id becomes '<household id>/<profile id>' for the dashboard.
+-- Rows recorded before this have no account and no longer count toward any budget.
+
+alter table public.tutor_usage
+  add column if not exists account text;
+
+create index if not exists tutor_usage_account_at_idx
+  on public.tutor_usage (account, at);
@@ -0,0 +1,5 @@
+-- The practice test itself (title and questions), next to its test_result, so a test taken on
+-- one device can be reviewed or redone on another.
+
+alter table public.sessions_cloud
+  add column if not exists test jsonb;
@@ -9,6 +9,13 @@ export default defineConfig({
       registerType: "autoUpdate",
       injectRegister: "auto",
       devOptions: { enabled: true, type: "module" },
+      // Precache the app shell and KaTeX's fonts so past sessions (and their math) render offline.
+      // The tutor function is never cached: questions asked offline go to the outbox instead.
+      workbox: {
+        globPatterns: ["**/*.{js,css,html,svg,png,ico,woff2}"],
+        navigateFallback: "/index.html",
+        navigateFallbackDenylist: [/^\/\.netlify\//],
+      },
       manifest: {
         name: "Home Tutor",
         short_name: "Tutor",